@@ -1,66 +1,136 @@
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { ChessBoard } from './components/ChessBoard'
 import { EngineTest } from './components/EngineTest'
 import { PlayComputer } from './components/PlayComputer'
+import { Trainer } from './components/Trainer'
+import { TablebasePanel } from './components/TablebasePanel'
+import { EngineSettingsPanel } from './components/EngineSettingsPanel'
+import { FenEditor } from './components/FenEditor'
+import { AnalysisPanel } from './components/AnalysisPanel'
+import { DeepLinkSync } from './components/DeepLinkSync'
+import { PositionGenerator } from './components/PositionGenerator'
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom'
 import './App.css'
-import { useStockfish, EvaluationResult } from './hooks/useStockfish.ts'
+import { useStockfish, EvaluationResult, DEFAULT_WORKER_COUNT, isAbortError } from './hooks/useStockfish.ts'
+import { useTablebase, tablebaseToEvaluation } from './hooks/useTablebase'
+import { useRetrograde, retrogradeToEvaluation } from './hooks/useRetrograde'
+import { useEngineProfiles } from './hooks/useEngineProfiles'
 import { Chess, PieceSymbol, Square } from 'chess.js'
+import { planSweep, piecesFromFen, pieceFromCode, PieceCode, SweepPlan } from './utils/sweep'
+import { validateFen } from './utils/positionValidation'
+import { QueuedSweep } from './utils/positionGenerator'
+import { EMPTY_BOARD, formatFen, parseFen } from './utils/fen'
+import { DEFAULT_THRESHOLDS, EvaluationOutcome, evaluationOutcome, EvaluationThresholds, loadThresholds, saveThresholds, toWhitePerspective } from './utils/evaluationScale'
+import { DeepLink } from './utils/deepLink'
+import { BoardArrow } from './utils/analysis'
+import { cachedEvaluation } from './utils/evaluationCache'
+import { SearchLimit } from './utils/engineProfiles'
+import { DEPTH_STEP, loadProgressiveSettings, MAX_REFINE_DEPTH, needsRefinement, ProgressiveSweepSettings, saveProgressiveSettings, SCAN_DEPTH } from './utils/progressiveSweep'
 
-// Helper function for delays
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const OUTCOME_EMOJI: Record<EvaluationOutcome, string> = { 1: '✅', 0: '½', [-1]: '❌' };
 
 // Helper function to get evaluation emoji
-const getEvaluationEmoji = (evaluation: EvaluationResult | null | undefined): string => {
-  if (!evaluation) return ''; // Nothing if not evaluated or null/undefined
-
-  // White winning (mate or strong advantage)
-  if ((evaluation.mate && evaluation.mate > 0) || (evaluation.score !== undefined && evaluation.score > 200)) {
-    return '✅';
-  }
-
-  // Black winning (mate or strong advantage)
-  if ((evaluation.mate && evaluation.mate < 0) || (evaluation.score !== undefined && evaluation.score < -200)) {
-    return '❌';
-  }
-
-  // Draw/Even (score is defined and within the drawish range [-50, 50])
-  if (evaluation.score !== undefined && evaluation.score >= -50 && evaluation.score <= 50) {
-    return '½';
-  }
+const getEvaluationEmoji = (evaluation: EvaluationResult | null | undefined, thresholds: EvaluationThresholds = DEFAULT_THRESHOLDS): string => {
+  const outcome = evaluationOutcome(evaluation, thresholds);
+  return outcome === null ? '' : OUTCOME_EMOJI[outcome];
+};
 
-  // All other cases return empty string
-  return '';
+// Having the move normally never hurts. When White to move does worse than Black to move,
+// whoever has to move is worse off: the square is a (reciprocal) zugzwang.
+const isZugzwang = (whiteToMove: EvaluationResult | null | undefined, blackToMove: EvaluationResult | null | undefined, thresholds: EvaluationThresholds): boolean => {
+  const white = evaluationOutcome(whiteToMove, thresholds);
+  const black = evaluationOutcome(blackToMove, thresholds);
+  return white !== null && black !== null && white < black;
 };
 
-// Helper to create FEN (Assuming this is still useful, otherwise remove)
-function createFenFromPieces(pieces: { square: Square; piece: { type: PieceSymbol; color: 'w' | 'b' } }[], turn: 'w' | 'b' = 'w'): string {
+// Helper to create FEN for a sweep position. Castling rights and move counters come from
+// the edited position; its en passant target only applies with the same side to move.
+function createFenFromPieces(pieces: { square: Square; piece: { type: PieceSymbol; color: 'w' | 'b' } }[], turn: 'w' | 'b' = 'w', baseFen: string = ''): string {
   const game = new Chess();
   game.clear();
   pieces.forEach(p => game.put(p.piece, p.square));
-  const fen = game.fen();
-  // Ensure correct turn in FEN if needed, default chess.js FEN might suffice
-  const fenParts = fen.split(' ');
-  fenParts[1] = turn; // Set turn
-  fenParts[2] = '-'; // No castling rights
-  fenParts[3] = '-'; // No en passant
-  fenParts[4] = '0'; // No halfmove clock
-  fenParts[5] = '1'; // Fullmove number
-  return fenParts.join(' ');
+  const fields = parseFen(baseFen);
+  return formatFen({
+    ...fields,
+    board: game.fen().split(' ')[0],
+    turn,
+    enPassant: fields.turn === turn ? fields.enPassant : '-',
+  });
+}
+
+// An engine-judged square of a progressive sweep; results are from the side to move's view
+interface TrackedSquare {
+  square: Square;
+  sideToMove: 'w' | 'b';
+  fen: string;
+  result: EvaluationResult;
+  previous: EvaluationResult | null; // Result of the round before, to spot large swings
+  refined: boolean;
 }
 
 function App() {
   const cancelEvaluationRef = useRef(false);
-  const [currentFen, setCurrentFen] = useState<string>('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')
+  const sweepAbortRef = useRef<AbortController | null>(null); // Aborts the queued and running jobs of the current sweep
+  const [currentFen, setCurrentFen] = useState<string>(`${EMPTY_BOARD} w - - 0 1`) // The editor starts with an empty board
   const [kingEvaluationResults, setKingEvaluationResults] = useState<Record<string, EvaluationResult | null>>({})
+  // Same squares with the other side to move, only filled by a both-sides sweep
+  const [oppositeTurnResults, setOppositeTurnResults] = useState<Record<string, EvaluationResult | null> | null>(null)
   const [isEvaluatingKings, setIsEvaluatingKings] = useState<boolean>(false)
   const [currentTurn, setCurrentTurn] = useState<'w' | 'b'>('w');
   const [orientation, setOrientation] = useState<'white' | 'black'>('white')
+  const [sweepPiece, setSweepPiece] = useState<PieceCode | null>(null) // null sweeps the missing king
+  const [sweptPiece, setSweptPiece] = useState<PieceCode | null>(null) // Piece placed by the sweep behind kingEvaluationResults
+  const [sweepError, setSweepError] = useState<string | null>(null)
+  const [sweepBothSides, setSweepBothSides] = useState<boolean>(false) // Reciprocal zugzwang mode
+  const [thresholds, setThresholds] = useState<EvaluationThresholds>(loadThresholds)
+  const [progressiveSweep, setProgressiveSweep] = useState<ProgressiveSweepSettings>(loadProgressiveSettings)
+  const [analysisArrows, setAnalysisArrows] = useState<BoardArrow[]>([])
+  const [sweepQueue, setSweepQueue] = useState<QueuedSweep[]>([]) // Generated positions waiting for their sweep
+  const [queueRunning, setQueueRunning] = useState<boolean>(false) // Cleared by any position the user loads
+  const [workerCount, setWorkerCount] = useState<number>(() => {
+    const stored = parseInt(window.localStorage.getItem('engineWorkerCount') ?? '');
+    return stored > 0 ? stored : DEFAULT_WORKER_COUNT;
+  });
 
+  const { profile: sweepProfile } = useEngineProfiles('sweep')
   const {
     isReady: engineReady,
+    declaredOptions: engineOptions,
     evaluateFen
-  } = useStockfish()
+  } = useStockfish({ workerCount, engineOptions: sweepProfile.options })
+  const { tables: tablebaseTables, maxPieces: tablebaseMaxPieces, loadFiles: loadTablebaseFiles, probe: probeTablebase } = useTablebase()
+  const {
+    solvedTables,
+    missingTables,
+    solving: solverStatus,
+    building: solverBuilding,
+    buildError: solverBuildError,
+    probe: probeSolver,
+    buildTable,
+    cancelBuild
+  } = useRetrograde()
+
+  useEffect(() => {
+    window.localStorage.setItem('engineWorkerCount', String(workerCount));
+  }, [workerCount]);
+
+  useEffect(() => {
+    saveThresholds(thresholds);
+  }, [thresholds]);
+
+  useEffect(() => {
+    saveProgressiveSettings(progressiveSweep);
+  }, [progressiveSweep]);
+
+  // The overlay and the zugzwang check follow the user's win/draw thresholds
+  const evaluationEmoji = useCallback(
+    (evaluation: EvaluationResult | null | undefined) => getEvaluationEmoji(evaluation, thresholds),
+    [thresholds]
+  );
+  const zugzwangCheck = useCallback(
+    (whiteToMove: EvaluationResult | null | undefined, blackToMove: EvaluationResult | null | undefined) => isZugzwang(whiteToMove, blackToMove, thresholds),
+    [thresholds]
+  );
 
   useEffect(() => {
     if (engineReady) {
@@ -70,12 +140,15 @@ function App() {
     }
   }, [engineReady]);
 
-  const handlePositionChange = (fen: string) => {
+  const loadPosition = (fen: string) => {
     if (fen !== currentFen) {
       // console.log("[App] Position changed, clearing evaluations."); // REMOVED
       cancelEvaluationRef.current = true;
+      sweepAbortRef.current?.abort(); // Stop every worker, not just the sweep loop
       setIsEvaluatingKings(false);
       setKingEvaluationResults({}) 
+      setOppositeTurnResults(null)
+      setSweepError(null)
       setCurrentFen(fen)
       const turn = fen.split(' ')[1] as 'w' | 'b' || 'w';
       setCurrentTurn(turn);
@@ -87,6 +160,34 @@ function App() {
     }
   }
 
+  // Edits, FEN input, history and links: a new position also pauses the sweep queue
+  const handlePositionChange = (fen: string) => {
+    if (fen !== currentFen) setQueueRunning(false);
+    loadPosition(fen);
+  }
+
+  // A shared link or a back/forward step: the position, sweep settings and, when the link
+  // carries them, the finished results, which are shown without running the engine
+  const handleOpenLink = (link: DeepLink) => {
+    handlePositionChange(link.fen);
+    setSweepPiece(link.sweepPiece);
+    setSweepBothSides(link.sweepBothSides);
+    if (link.results) {
+      setSweptPiece(link.results.piece);
+      setKingEvaluationResults(link.results.evaluations);
+      setOppositeTurnResults(link.results.oppositeTurnEvaluations);
+    }
+  };
+
+  // Results only go into the link once the sweep is over
+  const hasResults = !isEvaluatingKings && sweptPiece !== null && Object.keys(kingEvaluationResults).length > 0;
+  const deepLink: DeepLink = {
+    fen: currentFen,
+    sweepPiece,
+    sweepBothSides,
+    results: hasResults ? { piece: sweptPiece, evaluations: kingEvaluationResults, oppositeTurnEvaluations: oppositeTurnResults } : null,
+  };
+
   const handleTurnChange = (newTurn: 'w' | 'b') => {
     // console.log("[App] handleTurnChange called with:", newTurn); // REMOVED
     if (newTurn !== currentTurn) {
@@ -103,114 +204,177 @@ function App() {
     }
   };
 
-  const handleEvaluateKingPositions = async () => {
-    cancelEvaluationRef.current = false;
-    setIsEvaluatingKings(true);
-    const evaluationForThisFen: Record<string, EvaluationResult | null> = {}; 
+  // Results of the other side to move go to their own map in a both-sides sweep
+  const storeSquareResult = (square: Square, ownTurn: boolean, result: EvaluationResult | null) => {
+    if (ownTurn) setKingEvaluationResults(prev => ({ ...prev, [square]: result }));
+    else setOppositeTurnResults(prev => ({ ...prev, [square]: result }));
+  };
 
+  // Refinement rounds of a progressive sweep. Each round searches the undecided squares a few
+  // plies deeper; squares no longer in doubt lose their provisional mark. When the budget runs
+  // out the running searches are stopped and their squares keep the last finished result.
+  const refineSquares = async (
+    squares: TrackedSquare[],
+    options: Record<string, string>,
+    budgetMs: number,
+    sweepSignal: AbortSignal,
+    store: (tracked: TrackedSquare, refinement: EvaluationResult['refinement']) => void,
+  ) => {
+    const budgetController = new AbortController();
+    const abortRound = () => budgetController.abort();
+    const budgetTimer = setTimeout(abortRound, budgetMs);
+    sweepSignal.addEventListener('abort', abortRound);
     try {
-      // console.log("Starting king evaluation for FEN:", currentFen); // REMOVED
-      const game = new Chess(); // Use chess.js for parsing and setup
-      game.clear();
-      const piecesToPlace: { square: Square; piece: { type: PieceSymbol; color: 'w' | 'b' } }[] = [];
-      let file = 0;
-      let rank = 7;
-      let existingKingSquare: Square | null = null;
-      let existingKingColor: 'w' | 'b' | null = null;
-      const turn = currentFen.split(' ')[1] as 'w' | 'b' || 'w'; // Get turn from FEN
-
-      for (const char of currentFen.split(' ')[0]) {
-        if (char === '/') {
-          rank--;
-          file = 0;
-        } else if (/\d/.test(char)) {
-          file += parseInt(char);
-        } else {
-          const square = `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
-          const color = (char === char.toUpperCase()) ? 'w' : 'b';
-          const type = char.toLowerCase() as PieceSymbol;
-          // Use game.put to handle validation implicitly if needed, or just track pieces
-          game.put({ type, color }, square);
-          piecesToPlace.push({ square, piece: { type, color } });
-          if (type === 'k') {
-            existingKingSquare = square;
-            existingKingColor = color;
+      for (let depth = SCAN_DEPTH + DEPTH_STEP; depth <= MAX_REFINE_DEPTH && !budgetController.signal.aborted; depth += DEPTH_STEP) {
+        const candidates = squares.filter(tracked => needsRefinement(tracked.result, tracked.previous, thresholds));
+        squares.filter(tracked => !candidates.includes(tracked)).forEach(tracked => store(tracked, tracked.refined ? 'refined' : undefined));
+        if (candidates.length === 0) break;
+        const limit: SearchLimit = { kind: 'depth', value: depth };
+        await Promise.all(candidates.map(async tracked => {
+          try {
+            const result = await cachedEvaluation(tracked.fen, limit, options, (canonicalFen, signal) => evaluateFen(canonicalFen, limit, { signal }), budgetController.signal);
+            if (!result || sweepSignal.aborted) return;
+            tracked.previous = tracked.result;
+            tracked.result = result;
+            tracked.refined = true;
+            store(tracked, 'refined');
+          } catch (refineError) {
+            if (!isAbortError(refineError)) console.error(`  Error refining ${tracked.fen}:`, refineError);
           }
-          file++;
-        }
+        }));
       }
+    } finally {
+      clearTimeout(budgetTimer);
+      sweepSignal.removeEventListener('abort', abortRound);
+    }
+  };
 
-      if (!existingKingSquare || !existingKingColor) {
-          console.error("Logic error: Could not find existing king after parsing FEN.");
-          setIsEvaluatingKings(false);
-          return;
-      }
+  const handleEvaluateKingPositions = async () => {
+    let plan: SweepPlan;
+    try {
+      plan = planSweep(currentFen, sweepPiece);
+    } catch (planError) {
+      setSweepError(planError instanceof Error ? planError.message : String(planError));
+      return;
+    }
+    setSweepError(null);
 
-      // Ensure missingKingColor has the correct type for createFenFromPieces
-      const missingKingColor = (existingKingColor === 'w' ? 'b' : 'w') as 'w' | 'b';
+    cancelEvaluationRef.current = false;
+    sweepAbortRef.current?.abort();
+    const abortController = new AbortController();
+    sweepAbortRef.current = abortController;
+    setIsEvaluatingKings(true);
+    // Results of a sweep with another piece must not mix with this one
+    setSweptPiece(plan.piece);
+    setKingEvaluationResults({});
+    setOppositeTurnResults(sweepBothSides ? {} : null);
 
-      const allSquares = ([] as Square[]).concat(...Array(8).fill(0).map((_, r) => Array(8).fill(0).map((_, f) => `${String.fromCharCode(97 + f)}${8 - r}` as Square)));
+    try {
+      const turn = currentFen.split(' ')[1] as 'w' | 'b' || 'w'; // Get turn from FEN
+      const piecesToPlace = piecesFromFen(currentFen);
+      const placedPiece = pieceFromCode(plan.piece);
+      const { options } = sweepProfile; // Fixed for the whole sweep
+      // A progressive sweep scans at a low depth first and refines afterwards; its budget
+      // covers both, so it starts now
+      const progressive = progressiveSweep.enabled;
+      const sweepStart = performance.now();
+      const limit: SearchLimit = progressive ? { kind: 'depth', value: SCAN_DEPTH } : sweepProfile.limit;
+      const engineSquares: TrackedSquare[] = []; // Squares the engine judged, for the refinement rounds
 
-      // console.log(`Evaluating possible squares for the ${missingKingColor === 'w' ? 'White' : 'Black'} king...`); // REMOVED
+      // In both-sides mode every square is evaluated a second time with the other side to move
+      const oppositeTurn = turn === 'w' ? 'b' : 'w';
+      const sweepTurns: ('w' | 'b')[] = sweepBothSides ? [turn, oppositeTurn] : [turn];
 
-      for (const square of allSquares) {
-          // Stop if clear board was clicked
-          if (cancelEvaluationRef.current) break;
-          if (game.get(square) || square === existingKingSquare) continue;
+      // Queue every square at once; the worker pool spreads them across its engines
+      // and each result is stored as soon as its worker reports back.
+      await Promise.all(plan.squares.flatMap(square => sweepTurns.map(async sideToMove => {
+          // Create the temporary position with the swept piece added
+          const tempPieces = [...piecesToPlace, { square, piece: placedPiece }];
+          const tempFen = createFenFromPieces(tempPieces, sideToMove, currentFen); // Use helper to ensure valid FEN
+          const storeResult = (result: EvaluationResult | null) => storeSquareResult(square, sideToMove === turn, result);
 
-          // Prevent placing kings adjacent to each other
-          const squareFile = square.charCodeAt(0);
-          const squareRank = parseInt(square[1]);
-          const existingFile = existingKingSquare.charCodeAt(0);
-          const existingRank = parseInt(existingKingSquare[1]);
-          if (Math.abs(squareFile - existingFile) <= 1 && Math.abs(squareRank - existingRank) <= 1) {
-              continue; // Skip adjacent squares
+          // Illegal placements (e.g. the king left in check on the other side's move) are marked, not evaluated
+          const problems = validateFen(tempFen);
+          if (problems.length > 0) {
+              storeResult({ illegal: problems.map(problem => problem.message).join('; ') });
+              return;
           }
 
-          // Create the temporary position with the second king
-          const tempPieces = [...piecesToPlace, { square, piece: { type: 'k' as PieceSymbol, color: missingKingColor } }];
-          const tempFen = createFenFromPieces(tempPieces, turn); // Use helper to ensure valid FEN
-
           try {
-              const evaluation = await evaluateFen(tempFen, 1000);
-              if (cancelEvaluationRef.current) break;
+              // Small endgames with a built solver table are answered exactly, then the Syzygy
+              // files are tried, and only what neither covers goes to the engine, through the
+              // cache so mirrored and earlier swept positions are not searched again
+              const solverResult = await probeSolver(tempFen);
+              if (abortController.signal.aborted) return;
+              const tablebaseResult = solverResult ? null : await probeTablebase(tempFen);
+              if (abortController.signal.aborted) return;
+              const evaluation = solverResult
+                  ? retrogradeToEvaluation(solverResult)
+                  : tablebaseResult
+                  ? tablebaseToEvaluation(tablebaseResult)
+                  : await cachedEvaluation(tempFen, limit, options, (canonicalFen, signal) => evaluateFen(canonicalFen, limit, { signal }), abortController.signal);
+              if (cancelEvaluationRef.current) return;
 
               // --- ADJUST PERSPECTIVE: Convert score/mate if it was Black's turn in tempFen ---
-              let adjustedEvaluation = evaluation; // Start with the raw evaluation
-              const turnOfEvaluatedFen = tempFen.split(' ')[1]; // Get turn from the FEN we just evaluated
-              
-              if (turnOfEvaluatedFen === 'b' && evaluation) {
-                  // If Black moved and we got a result, negate score/mate
-                  adjustedEvaluation = {
-                      ...evaluation,
-                      score: evaluation.score !== undefined ? -evaluation.score : undefined,
-                      mate: evaluation.mate !== undefined ? -evaluation.mate : undefined,
-                  };
-                  console.log(`[App Eval Loop] Original eval (Black's turn):`, evaluation, `Adjusted eval (White's perspective):`, adjustedEvaluation);
-              } else {
-                 // console.log(`[App Eval Loop] Result for ${square} (White's turn):`, evaluation); // Keep original log commented
+              const adjustedEvaluation = toWhitePerspective(evaluation, sideToMove);
+
+              if (progressive && evaluation?.source === 'engine') {
+                  engineSquares.push({ square, sideToMove, fen: tempFen, result: evaluation, previous: null, refined: false });
+                  storeResult(adjustedEvaluation && { ...adjustedEvaluation, refinement: 'provisional' });
+                  return;
               }
-              
+
               // --- Store the perspective-adjusted evaluation --- 
-              setKingEvaluationResults(prev => ({ ...prev, [square]: adjustedEvaluation })); 
-              evaluationForThisFen[square] = adjustedEvaluation; // Also update local collection
+              storeResult(adjustedEvaluation);
 
           } catch (evalError) {
+              if (isAbortError(evalError)) return; // Aborted jobs reject, nothing to record
               console.error(`  Error evaluating FEN ${tempFen} for square ${square}:`, evalError);
-              setKingEvaluationResults(prev => ({ ...prev, [square]: null }));
-              evaluationForThisFen[square] = null;
+              storeResult(null);
           }
+      })));
+
+      // When the scan used up the budget the squares keep their provisional mark
+      const remainingMs = progressiveSweep.budgetSeconds * 1000 - (performance.now() - sweepStart);
+      if (progressive && !abortController.signal.aborted && remainingMs > 0) {
+          await refineSquares(engineSquares, options, remainingMs, abortController.signal,
+              (tracked, refinement) => storeSquareResult(tracked.square, tracked.sideToMove === turn, { ...toWhitePerspective(tracked.result, tracked.sideToMove)!, refinement }));
       }
-      // console.log("Finished all king evaluations."); // Keep removed
 
     } catch (error) { // Use generic error for outer catch
       console.error("An unexpected error occurred during king evaluation:", error);
     } finally {
       // --- RESTORED: finally block --- 
-      setIsEvaluatingKings(false); 
-      cancelEvaluationRef.current = false;
+      if (sweepAbortRef.current === abortController) {
+        sweepAbortRef.current = null;
+        setIsEvaluatingKings(false);
+        cancelEvaluationRef.current = false;
+      }
+    }
+  };
+
+  // Queued sweeps run one after the other while the queue runs: once a sweep has finished and
+  // saved its results the next position is loaded, and swept on the render that shows it
+  const runQueueStep = () => {
+    if (sweepQueue.length === 0) {
+      setQueueRunning(false);
+      return;
+    }
+    const [next, ...rest] = sweepQueue;
+    if (currentFen !== next.fen || sweepPiece !== next.piece) {
+      loadPosition(next.fen);
+      setSweepPiece(next.piece);
+      return;
     }
+    setSweepQueue(rest);
+    handleEvaluateKingPositions();
   };
+  const runQueueStepRef = useRef(runQueueStep);
+  runQueueStepRef.current = runQueueStep;
+
+  useEffect(() => {
+    if (queueRunning && !isEvaluatingKings) runQueueStepRef.current();
+  }, [queueRunning, isEvaluatingKings, sweepQueue, currentFen, sweepPiece]);
 
   // --- RESTORED: return statement with Router, Routes, ChessBoard etc. --- 
   return (
@@ -219,28 +383,69 @@ function App() {
         <nav style={{ marginBottom: '10px' }}>
           <Link to="/" style={{ marginRight: '10px' }}>King Positions</Link>
           <Link to="/engine" style={{ marginRight: '10px' }}>Engine Test</Link>
-          <Link to="/play">Play vs Computer</Link>
+          <Link to="/play" style={{ marginRight: '10px' }}>Play vs Computer</Link>
+          <Link to="/train">Trainer</Link>
         </nav>
 
         <Routes>
           <Route path="/play" element={<PlayComputer />} />
           <Route path="/engine" element={<EngineTest />} />
+          <Route path="/train" element={<Trainer />} />
           <Route path="/" element={
             <>
+              <DeepLinkSync link={deepLink} onOpen={handleOpenLink} />
               <ChessBoard
                 onPositionChange={handlePositionChange}
                 kingDetailedEvaluations={kingEvaluationResults}
-                getEvaluationEmoji={getEvaluationEmoji} 
+                kingOppositeTurnEvaluations={oppositeTurnResults}
+                getEvaluationEmoji={evaluationEmoji} 
+                isZugzwang={zugzwangCheck}
+                thresholds={thresholds}
+                onThresholdsChange={setThresholds}
                 isEvaluatingKings={isEvaluatingKings}
                 onEvaluateKingPositions={handleEvaluateKingPositions}
                 currentTurn={currentTurn}
                 onTurnChange={handleTurnChange}
                 evaluatedFen={currentFen}
+                evaluatedPiece={sweptPiece}
+                sweepPiece={sweepPiece}
+                onSweepPieceChange={setSweepPiece}
+                sweepError={sweepError}
+                sweepBothSides={sweepBothSides}
+                onSweepBothSidesChange={setSweepBothSides}
+                progressiveSweep={progressiveSweep}
+                onProgressiveSweepChange={setProgressiveSweep}
+                workerCount={workerCount}
+                onWorkerCountChange={setWorkerCount}
+                analysisArrows={analysisArrows}
+              />
+              <AnalysisPanel
+                fen={currentFen}
+                pausedReason={isEvaluatingKings ? 'Paused while the sweep runs' : null}
+                onArrowsChange={setAnalysisArrows}
+              />
+              <TablebasePanel
+                tables={tablebaseTables}
+                maxPieces={tablebaseMaxPieces}
+                onLoadFiles={loadTablebaseFiles}
+                solvedTables={solvedTables}
+                missingTables={missingTables}
+                solverStatus={solverStatus}
+                building={solverBuilding}
+                buildError={solverBuildError}
+                onBuildTable={buildTable}
+                onCancelBuild={cancelBuild}
+              />
+              <FenEditor fen={currentFen} onFenChange={handlePositionChange} />
+              <PositionGenerator
+                onLoad={handlePositionChange}
+                onQueue={sweeps => { setSweepQueue(prev => [...prev, ...sweeps]); setQueueRunning(true); }}
+                queuedCount={sweepQueue.length}
+                queueRunning={queueRunning}
+                onResumeQueue={() => setQueueRunning(true)}
+                onCancelQueue={() => { setSweepQueue([]); setQueueRunning(false); }}
               />
-              <div className="fen-display" style={{marginTop: '10px'}}>
-                <h3>Current Position (FEN):</h3>
-                <code style={{wordBreak: 'break-all'}}>{currentFen}</code>
-              </div>
+              <EngineSettingsPanel declaredOptions={engineOptions} />
             </>
           } />
         </Routes>
@@ -0,0 +1,81 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAnalysis } from '../hooks/useAnalysis';
+import {
+  AnalysisSettings,
+  analysisArrows,
+  BoardArrow,
+  evalBarFraction,
+  formatScore,
+  loadAnalysisSettings,
+  MAX_MULTI_PV,
+  saveAnalysisSettings,
+} from '../utils/analysis';
+import { formatMoves, pvToSan } from '../utils/notation';
+import { validateFen } from '../utils/positionValidation';
+
+interface AnalysisPanelProps {
+  fen: string; // The edited position
+  pausedReason: string | null; // Set while the engine time is needed elsewhere
+  onArrowsChange: (arrows: BoardArrow[]) => void; // First moves of the lines, for the board
+}
+
+// Live engine lines for the edited position, best line first, with an eval bar from White's
+// side. The engine runs only while the panel is mounted, on or off with its checkbox.
+export function AnalysisPanel({ fen, pausedReason, onArrowsChange }: AnalysisPanelProps) {
+  const [settings, setSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  // The engine cannot be given a position without both kings, or any other illegal one
+  const unavailableReason = pausedReason ?? (validateFen(fen).length > 0 ? 'Analysis needs a legal position' : null);
+  const analysis = useAnalysis(settings.enabled && !unavailableReason ? fen : null, settings.multiPv);
+  // Lines of a position the user has already left are not shown while the new search starts
+  const lines = useMemo(() => analysis.fen === fen ? analysis.lines : [], [analysis, fen]);
+  const whiteShare = evalBarFraction(lines[0]?.score);
+
+  useEffect(() => {
+    saveAnalysisSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    onArrowsChange(analysisArrows(lines));
+  }, [lines, onArrowsChange]);
+
+  useEffect(() => () => onArrowsChange([]), [onArrowsChange]);
+
+  let status: string;
+  if (!settings.enabled) status = 'Analysis is off';
+  else if (unavailableReason) status = unavailableReason;
+  else if (analysis.fen !== fen || (analysis.running && lines.length === 0)) status = 'Starting engine...';
+  else if (!analysis.running && lines.length === 0) status = 'No legal moves in this position';
+  else status = `Depth ${analysis.depth} · ${Math.round(analysis.nps / 1000).toLocaleString()} kN/s · ${(analysis.nodes / 1e6).toFixed(1)} M nodes`;
+
+  return (
+    <div className="analysis-panel">
+      <div className="analysis-header">
+        <h3>Analysis</h3>
+        <label>
+          <input type="checkbox" checked={settings.enabled} onChange={e => setSettings({ ...settings, enabled: e.target.checked })} />
+          On
+        </label>
+        <label>
+          Lines
+          <select value={settings.multiPv} onChange={e => setSettings({ ...settings, multiPv: parseInt(e.target.value) })}>
+            {Array.from({ length: MAX_MULTI_PV }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="analysis-body">
+        <div className="eval-bar" title={lines[0] ? formatScore(lines[0].score) : undefined}>
+          <div className="eval-bar-white" style={{ height: `${whiteShare * 100}%` }} />
+        </div>
+        <div className="analysis-lines">
+          <div className="analysis-status">{status}</div>
+          {lines.map(line => (
+            <div key={line.multipv} className="analysis-line">
+              <span className="analysis-score">{formatScore(line.score)}</span>
+              <span className="analysis-pv">{formatMoves(fen, pvToSan(fen, line.pv))}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
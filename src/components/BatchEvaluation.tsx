@@ -0,0 +1,159 @@
+import { useMemo, useRef, useState } from 'react';
+import { EvaluateOptions, EvaluationResult, isAbortError } from '../hooks/useStockfish';
+import { formatLimit, SearchLimit } from '../utils/engineProfiles';
+import { formatEvaluation, toWhitePerspective } from '../utils/evaluationScale';
+import { parseFen } from '../utils/fen';
+import { downloadText } from '../utils/historyTransfer';
+import {
+  batchToCsv,
+  batchToEpd,
+  bestMoveSan,
+  BatchRow,
+  BatchSortKey,
+  parseBatchInput,
+  positionId,
+  sortBatchRows,
+} from '../utils/batchEvaluation';
+
+interface BatchEvaluationProps {
+  engineReady: boolean;
+  evaluateFen: (fen: string, limit: SearchLimit, options?: EvaluateOptions) => Promise<EvaluationResult | null>;
+  limit: SearchLimit; // Of the selected engine profile
+  profileName: string;
+}
+
+const COLUMNS: { key: BatchSortKey | null; label: string }[] = [
+  { key: 'line', label: 'Line' },
+  { key: null, label: 'Id' },
+  { key: null, label: 'FEN' },
+  { key: 'score', label: 'Score (White)' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'bestMove', label: 'Best move' },
+];
+
+// Many positions at once through the selected profile: a FEN list or an EPD file in, a
+// sortable table and CSV or EPD files out
+export function BatchEvaluation({ engineReady, evaluateFen, limit, profileName }: BatchEvaluationProps) {
+  const [input, setInput] = useState('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [sort, setSort] = useState<{ key: BatchSortKey; descending: boolean }>({ key: 'line', descending: false });
+  const abortRef = useRef<AbortController | null>(null);
+  const parsed = useMemo(() => parseBatchInput(input), [input]);
+  const sortedRows = useMemo(() => sortBatchRows(rows, sort.key, sort.descending), [rows, sort]);
+  const finished = rows.filter(row => row.status === 'done' || row.status === 'failed').length;
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setInput(await file.text());
+    } catch (error) {
+      console.error('[BatchEvaluation] Failed to read file:', error);
+    }
+  };
+
+  const run = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { positions } = parsed;
+    setRows(positions.map(position => ({ position, status: 'pending', evaluation: null })));
+    setRunning(true);
+    const update = (line: number, changes: Partial<BatchRow>) =>
+      setRows(prev => prev.map(row => row.position.line === line ? { ...row, ...changes } : row));
+
+    // Every position is queued at once; the worker pool takes them in order
+    await Promise.all(positions.map(async position => {
+      try {
+        const result = await evaluateFen(position.fen, limit, { signal: controller.signal });
+        update(position.line, { status: result ? 'done' : 'failed', evaluation: toWhitePerspective(result, parseFen(position.fen).turn) });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error(`[BatchEvaluation] Error evaluating ${position.fen}:`, error);
+        update(position.line, { status: 'failed' });
+      }
+    }));
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  // Rows still waiting are marked, so the exports can leave them out
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(false);
+    setRows(prev => prev.map(row => row.status === 'pending' ? { ...row, status: 'cancelled' } : row));
+  };
+
+  const toggleSort = (key: BatchSortKey) =>
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key !== 'line' }));
+
+  const exportFile = (format: 'csv' | 'epd') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const name = `batch-${profileName.replace(/\W+/g, '-').toLowerCase()}-${stamp}.${format}`;
+    if (format === 'csv') downloadText(name, batchToCsv(sortedRows), 'text/csv');
+    else downloadText(name, batchToEpd(sortedRows), 'text/plain');
+  };
+
+  return (
+    <div className="batch-evaluation">
+      <h2>Batch evaluation</h2>
+      <textarea
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        placeholder={'One FEN or EPD record per line, e.g.\n8/8/8/4k3/8/8/4P3/4K3 w - - 0 1\n8/8/8/4k3/8/8/4P3/4K3 b - - id "KPvK 1";'}
+        rows={8}
+        spellCheck={false}
+        disabled={running}
+      />
+      <div className="batch-controls">
+        <input type="file" accept=".epd,.fen,.txt" disabled={running} onChange={e => { loadFile(e.target.files?.[0]); e.target.value = ''; }} />
+        <span>{parsed.positions.length} positions · {formatLimit(limit)}</span>
+        {running
+          ? <button onClick={cancel}>Cancel</button>
+          : <button onClick={run} disabled={!engineReady || parsed.positions.length === 0}>Evaluate all</button>}
+        <button onClick={() => exportFile('csv')} disabled={running || finished === 0}>Export CSV</button>
+        <button onClick={() => exportFile('epd')} disabled={running || finished === 0}>Export EPD</button>
+      </div>
+      {parsed.errors.length > 0 && (
+        <ul className="batch-errors">
+          {parsed.errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="batch-progress">
+            <progress value={finished} max={rows.length} />
+            <span>{finished} / {rows.length}</span>
+          </div>
+          <table className="batch-table">
+            <thead>
+              <tr>
+                {COLUMNS.map(({ key, label }) => (
+                  <th key={label} className={key ? 'sortable' : undefined} onClick={key ? () => toggleSort(key) : undefined}>
+                    {label}{key && sort.key === key ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map(row => (
+                <tr key={row.position.line} className={row.status}>
+                  <td>{row.position.line}</td>
+                  <td>{positionId(row.position)}</td>
+                  <td className="batch-fen">{row.position.fen}</td>
+                  <td>{row.status === 'failed' || row.status === 'cancelled' ? row.status : formatEvaluation(row.evaluation) || '…'}</td>
+                  <td>{row.evaluation?.depth ?? ''}</td>
+                  <td>{bestMoveSan(row) ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
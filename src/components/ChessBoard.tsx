@@ -1,76 +1,176 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Chessboard } from 'react-chessboard';
 import { Chess, PieceSymbol, Square } from 'chess.js';
 import './ChessBoard.css';
 import { EvaluationResult } from '../hooks/useStockfish'; // Import EvaluationResult type
+import { PieceCode, piecesFromFen, placementFen } from '../utils/sweep';
+import { deleteHistoryEntry, FenHistoryEntry, getHistoryEntry, HistoryDetails, HistorySummary, isQuotaError, listHistory, putHistoryEntry, updateHistoryDetails } from '../utils/historyStore';
+import { EMPTY_HISTORY_FILTER, filterHistory, groupBySignature, HistoryFilter, isFilterActive, signaturesOf } from '../utils/historySearch';
+import { formatFen, parseFen } from '../utils/fen';
+import { EvaluationThresholds, evaluationToScale, formatEvaluation, heatmapColor } from '../utils/evaluationScale';
+import { EvaluationLegend, OverlayMode } from './EvaluationLegend';
+import { HistoryTransfer } from './HistoryTransfer';
+import { HistoryDetailsEditor } from './HistoryDetailsEditor';
+import { EngineProfileSelect } from './EngineProfileSelect';
+import { validateFen } from '../utils/positionValidation';
+import { ProgressiveSweepSettings } from '../utils/progressiveSweep';
+import { practicePath } from '../utils/practice';
+import { BoardArrow } from '../utils/analysis';
+import { InspectedPlacement, SquareInspector } from './SquareInspector';
 
 // --- Updated Props Interface ---
 interface ChessBoardProps {
   onPositionChange?: (fen: string) => void;
   // Removed: kingEvaluationResults: Record<string, string>;
   kingDetailedEvaluations: Record<string, EvaluationResult | null>; // Accept detailed evaluations per square
+  kingOppositeTurnEvaluations: Record<string, EvaluationResult | null> | null; // Other side to move, both-sides sweeps only
   getEvaluationEmoji: (evaluation: EvaluationResult | null | undefined) => string; // Accept emoji helper
+  isZugzwang: (whiteToMove: EvaluationResult | null | undefined, blackToMove: EvaluationResult | null | undefined) => boolean;
   isEvaluatingKings: boolean;
   onEvaluateKingPositions: () => void;
   // --- ADDED: Props for turn ---
   currentTurn: 'w' | 'b';
   onTurnChange: (turn: 'w' | 'b') => void;
   evaluatedFen: string; // <<< ADDED
+  evaluatedPiece: PieceCode | null; // Piece the sweep placed for kingDetailedEvaluations
+  sweepPiece: PieceCode | null; // Piece the next sweep places, null for the missing king
+  onSweepPieceChange: (piece: PieceCode | null) => void;
+  sweepError: string | null;
+  sweepBothSides: boolean; // Evaluate every square with both sides to move
+  onSweepBothSidesChange: (enabled: boolean) => void;
+  workerCount: number; // Number of parallel engine workers used by the sweep
+  onWorkerCountChange: (count: number) => void;
+  thresholds: EvaluationThresholds; // Win/draw cutoffs used by the emoji and heatmap overlays
+  onThresholdsChange: (thresholds: EvaluationThresholds) => void;
+  progressiveSweep: ProgressiveSweepSettings;
+  onProgressiveSweepChange: (settings: ProgressiveSweepSettings) => void;
+  analysisArrows: BoardArrow[]; // Best moves of the live analysis
 }
 
-// --- History Storage Type Change --- 
-// Type for the main storage object: { [fen]: evaluationMapForThatFen }
-// evaluationMapForThatFen: { [square]: detailedEvaluationResult }
-type FenHistoryStorage = Record<string, Record<string, EvaluationResult | null>>;
+// --- History Storage Change: entries live in IndexedDB (utils/historyStore) ---
+// The sidebar lists HistorySummary records; an entry's evaluations are read when it is opened.
+const HISTORY_PAGE_SIZE = 100; // Entries rendered before "Show more"
+
+// Both-sides results split by colour to move, whatever the turn of the swept FEN was
+interface DualEvaluation {
+  w: Record<string, EvaluationResult | null>;
+  b: Record<string, EvaluationResult | null>;
+}
+
+function toDualEvaluation(fen: string, evaluations: Record<string, EvaluationResult | null>, opposite?: Record<string, EvaluationResult | null> | null): DualEvaluation | null {
+  if (!opposite) return null;
+  return fen.split(' ')[1] === 'b' ? { w: opposite, b: evaluations } : { w: evaluations, b: opposite };
+}
+
+// The sweep behind the overlays: its position and the piece it placed
+interface ActiveSweep {
+  fen: string;
+  piece: PieceCode;
+}
+
+// A placement stepped into from a sweep; the sweep's overlays come back with the breadcrumb
+interface SweepStep {
+  sweep: ActiveSweep;
+  evaluations: Record<string, EvaluationResult | null>;
+  dual: DualEvaluation | null;
+  square: Square;
+  sideToMove: 'w' | 'b';
+}
+
+// Best-move arrows of the inspected square, one colour per side to move
+const INSPECT_ARROW_COLORS = { w: 'rgba(230, 119, 0, 0.85)', b: 'rgba(112, 72, 232, 0.85)' };
 
 const PIECES = [
-  { symbol: '♔', type: 'K' },
-  { symbol: '♚', type: 'k' },
-  { symbol: '♕', type: 'Q' },
-  { symbol: '♛', type: 'q' },
-  { symbol: '♖', type: 'R' },
-  { symbol: '♜', type: 'r' },
-  { symbol: '♗', type: 'B' },
-  { symbol: '♝', type: 'b' },
-  { symbol: '♘', type: 'N' },
-  { symbol: '♞', type: 'n' },
-  { symbol: '♙', type: 'P' },
-  { symbol: '♟', type: 'p' },
+  { symbol: '♔', type: 'K', name: 'White king' },
+  { symbol: '♚', type: 'k', name: 'Black king' },
+  { symbol: '♕', type: 'Q', name: 'White queen' },
+  { symbol: '♛', type: 'q', name: 'Black queen' },
+  { symbol: '♖', type: 'R', name: 'White rook' },
+  { symbol: '♜', type: 'r', name: 'Black rook' },
+  { symbol: '♗', type: 'B', name: 'White bishop' },
+  { symbol: '♝', type: 'b', name: 'Black bishop' },
+  { symbol: '♘', type: 'N', name: 'White knight' },
+  { symbol: '♞', type: 'n', name: 'Black knight' },
+  { symbol: '♙', type: 'P', name: 'White pawn' },
+  { symbol: '♟', type: 'p', name: 'Black pawn' },
 ] as const;
 
+const pieceSymbol = (code: PieceCode) => PIECES.find(p => p.type === code)?.symbol ?? code;
+
+const ILLEGAL_MARK = '🚫';
+
 // --- Animation Delay --- 
 const HISTORY_LOAD_ANIMATION_DELAY_MS = 300; // Adjust as needed (ms)
 
+// Tooltip for proven squares; evaluations are stored from White's perspective
+function provenTitle(evaluation: EvaluationResult | null | undefined): string | undefined {
+  if (evaluation?.source === 'tablebase') return `Tablebase result, DTZ ${evaluation.dtz ?? 'unknown'}`;
+  if (evaluation?.source !== 'retrograde') return undefined;
+  if (evaluation.mate === undefined) return 'Solved: draw';
+  if (evaluation.mate === 0) return 'Solved: checkmate';
+  return `Solved: ${evaluation.mate > 0 ? 'White' : 'Black'} mates in ${Math.abs(evaluation.mate)}`;
+}
+
+// Progressive sweeps: whether an engine square is still waiting for a deeper search
+function refinementClass(evaluation: EvaluationResult | null | undefined): string {
+  return evaluation?.refinement ? ` ${evaluation.refinement}` : '';
+}
+
+function refinementTitle(evaluation: EvaluationResult | null | undefined): string {
+  if (!evaluation?.refinement) return '';
+  return evaluation.refinement === 'provisional' ? ` (provisional, depth ${evaluation.depth})` : ` (refined to depth ${evaluation.depth})`;
+}
+
 export function ChessBoard({
   onPositionChange,
   // Removed: kingEvaluationResults,
   kingDetailedEvaluations,
+  kingOppositeTurnEvaluations,
   getEvaluationEmoji,
+  isZugzwang,
   isEvaluatingKings,
   onEvaluateKingPositions,
   // --- ADDED: Destructure turn props ---
   currentTurn,
   onTurnChange,
-  evaluatedFen // <<< Destructure
+  evaluatedFen, // <<< Destructure
+  workerCount,
+  onWorkerCountChange,
+  evaluatedPiece,
+  sweepPiece,
+  onSweepPieceChange,
+  sweepError,
+  sweepBothSides,
+  onSweepBothSidesChange,
+  thresholds,
+  onThresholdsChange,
+  progressiveSweep,
+  onProgressiveSweepChange,
+  analysisArrows
 }: ChessBoardProps) {
   console.log('[ChessBoard Render] Props received:', { kingDetailedEvaluations, currentTurn, evaluatedFen });
 
-  // --- History State Change: Load/Save the FenHistoryStorage object --- 
-  const [historyStorage, setHistoryStorage] = useState<FenHistoryStorage>(() => {
-    try {
-      const stored = window.localStorage.getItem('fenEvaluationStorage');
-      // console.log('[ChessBoard Init] Loaded from localStorage (fenEvaluationStorage):', stored ? JSON.parse(stored) : '<empty>'); // REMOVED
-      return stored ? JSON.parse(stored) : {};
-    } catch {
-      console.error('[ChessBoard Init] Failed to parse fenEvaluationStorage');
-      return {};
-    }
-  });
+  // --- History State Change: summaries are loaded after the first render --- 
+  const [historySummaries, setHistorySummaries] = useState<HistorySummary[] | null>(null); // null while loading
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyLimit, setHistoryLimit] = useState<number>(HISTORY_PAGE_SIZE);
+  const [selectedHistoryKeys, setSelectedHistoryKeys] = useState<string[]>([]); // Entries ticked for export
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const navigate = useNavigate();
+  const [editingHistoryKey, setEditingHistoryKey] = useState<string | null>(null); // Entry with the details form open
+  const lastSavedEntryRef = useRef<string>(''); // JSON of the last entry written, skips identical rewrites
 
   // --- Active Evaluation State Change: Holds detailed results per square --- 
   const [activeEvaluation, setActiveEvaluation] = useState<Record<string, EvaluationResult | null>>({});
+  const [activeDualEvaluation, setActiveDualEvaluation] = useState<DualEvaluation | null>(null); // Set for both-sides sweeps
   // --- State for pending evaluation after history click ---
-  const [pendingEvaluation, setPendingEvaluation] = useState<Record<string, EvaluationResult | null> | null>(null);
+  const [pendingEvaluation, setPendingEvaluation] = useState<{ evaluations: Record<string, EvaluationResult | null>; dual: DualEvaluation | null; sweep: ActiveSweep } | null>(null);
+  const [activeSweep, setActiveSweep] = useState<ActiveSweep | null>(null);
+  // Square whose details stay open; it belongs to the sweep it was clicked in
+  const [pinnedSquare, setPinnedSquare] = useState<{ sweep: ActiveSweep; square: Square } | null>(null);
+  const [hoveredSquare, setHoveredSquare] = useState<Square | null>(null);
+  const [sweepTrail, setSweepTrail] = useState<SweepStep[]>([]); // Parent sweeps of the position, oldest first
   // Ref to store the timeout ID for cleanup
   const evaluationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -88,60 +188,143 @@ export function ChessBoard({
     return fen;
   });
   const [selectedPiece, setSelectedPiece] = useState<string | null>(null);
+  const [overlayMode, setOverlayMode] = useState<OverlayMode>(() =>
+    window.localStorage.getItem('overlayMode') === 'heatmap' ? 'heatmap' : 'emoji');
+  const [showValues, setShowValues] = useState<boolean>(() => window.localStorage.getItem('overlayShowValues') !== 'false');
+
+  // Problems of the position being edited; a missing king is what the sweep fills in
+  const positionProblems = useMemo(() => validateFen(evaluatedFen, { allowMissingKings: true }), [evaluatedFen]);
+  const problemSquareStyles = useMemo(() => {
+    const styles: Record<string, React.CSSProperties> = {};
+    positionProblems.forEach(problem => problem.squares.forEach(square => {
+      styles[square] = { boxShadow: 'inset 0 0 0 3px rgba(201, 42, 42, 0.8)' };
+    }));
+    return styles;
+  }, [positionProblems]);
 
   const BOARD_WIDTH = 500;
   const SQUARE_SIZE = BOARD_WIDTH / 8;
 
+  // Board edits keep the castling rights, en passant target and move counters of the position
+  const composeFen = useCallback(
+    (boardFen: string) => formatFen({ ...parseFen(evaluatedFen), board: boardFen, turn: currentTurn }),
+    [evaluatedFen, currentTurn]
+  );
+
+  // Positions loaded from outside the editor (the FEN box) are put on the board here
+  useEffect(() => {
+    const board = parseFen(evaluatedFen).board;
+    if (board === game.fen().split(' ')[0]) return;
+    const newGame = new Chess();
+    newGame.clear();
+    piecesFromFen(evaluatedFen).forEach(p => newGame.put(p.piece, p.square));
+    setGame(newGame);
+    setPosition(evaluatedFen);
+  }, [evaluatedFen, game]);
+
   const handlePositionChange = useCallback((fen: string) => {
     // console.log('[CB PosChange] FEN:', fen); // REMOVED
     setPosition(fen);
     onPositionChange?.(fen);
   }, [onPositionChange]);
 
-  // --- Effect Change: Save to the new storage structure --- 
+  // --- Effect Change: Load the history list from IndexedDB (migrates the old localStorage copy) --- 
   useEffect(() => {
-    try {
-      const stringifiedData = JSON.stringify(historyStorage);
-      // console.log('[ChessBoard Effect - Persist History] Attempting localStorage.setItem (fenEvaluationStorage) with:', stringifiedData); // REMOVED
-      window.localStorage.setItem('fenEvaluationStorage', stringifiedData);
-      // console.log('[ChessBoard Effect - Persist History] Successfully wrote history to localStorage.'); // REMOVED
-    } catch (error) {
-      console.error('[ChessBoard Effect - Persist History] Failed to write history to localStorage:', error);
-    }
-  }, [historyStorage]);
+    let cancelled = false;
+    listHistory()
+      .then(summaries => { if (!cancelled) setHistorySummaries(summaries); })
+      .catch(error => {
+        console.error('[ChessBoard Effect - Load History] Failed to open the history database:', error);
+        if (!cancelled) {
+          setHistorySummaries([]);
+          setHistoryError('History could not be loaded; new evaluations will not be saved.');
+        }
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // An import adds and rewrites entries behind the list's back, so it is read again
+  const reloadHistory = useCallback(() => {
+    listHistory()
+      .then(setHistorySummaries)
+      .catch(error => console.error('[ChessBoard] Failed to reload history:', error));
+  }, []);
+
+  const toggleHistorySelection = useCallback((key: string, selected: boolean) => {
+    setSelectedHistoryKeys(prev => selected ? [...prev, key] : prev.filter(k => k !== key));
+  }, []);
+
+  const updateHistoryFilter = useCallback((changes: Partial<HistoryFilter>) => {
+    setHistoryFilter(prev => ({ ...prev, ...changes }));
+    setHistoryLimit(HISTORY_PAGE_SIZE);
+  }, []);
+
+  const handleSaveHistoryDetails = useCallback((key: string, details: HistoryDetails) => {
+    setEditingHistoryKey(null);
+    updateHistoryDetails(key, details)
+      .then(summary => setHistorySummaries(prev => prev && prev.map(s => s.key === key ? summary : s)))
+      .catch(error => {
+        console.error('[ChessBoard Callback] Failed to save history details:', error);
+        setHistoryError('The name, tags and notes could not be saved.');
+      });
+  }, []);
+
+  // Filtering runs over the summaries only; paging applies to the filtered list
+  const historySignatures = useMemo(() => signaturesOf(historySummaries ?? []), [historySummaries]);
+  const filteredHistory = useMemo(() => filterHistory(historySummaries ?? [], historyFilter), [historySummaries, historyFilter]);
+  const historyGroups = useMemo(() => groupBySignature(filteredHistory.slice(0, historyLimit)), [filteredHistory, historyLimit]);
+
+  const reportHistoryWriteError = useCallback((error: unknown) => {
+    console.error('[ChessBoard] Failed to write history:', error);
+    setHistoryError(isQuotaError(error)
+      ? 'Browser storage is full, this evaluation was not saved. Delete old history entries to make room.'
+      : 'This evaluation could not be saved to history.');
+  }, []);
+
+  useEffect(() => {
+    window.localStorage.setItem('overlayMode', overlayMode);
+    window.localStorage.setItem('overlayShowValues', String(showValues));
+  }, [overlayMode, showValues]);
 
   // --- useEffect for handling NEW evaluations --- 
   useEffect(() => {
     // console.log('[ChessBoard Effect - New Evals] Triggered. Data:', kingDetailedEvaluations, 'Evaluated FEN:', evaluatedFen);
 
+    setActiveDualEvaluation(toDualEvaluation(evaluatedFen, kingDetailedEvaluations, kingOppositeTurnEvaluations));
+
     // --- Use evaluatedFen in guard clause --- 
-    if (!evaluatedFen || !kingDetailedEvaluations || Object.keys(kingDetailedEvaluations).length === 0) {
+    if (!evaluatedFen || !evaluatedPiece || !kingDetailedEvaluations || Object.keys(kingDetailedEvaluations).length === 0) {
       // console.log('[ChessBoard Effect - New Evals] Condition not met (no evaluated FEN or empty results), skipping history update.');
        if (kingDetailedEvaluations && Object.keys(kingDetailedEvaluations).length > 0) {
          setActiveEvaluation(kingDetailedEvaluations);
       } else if (!kingDetailedEvaluations || Object.keys(kingDetailedEvaluations).length === 0) {
          setActiveEvaluation({});
       }
+      setActiveSweep(null);
       return;
     }
     // console.log('[ChessBoard Effect - New Evals] Conditions met. Updating active/history.');
     setActiveEvaluation(kingDetailedEvaluations);
+    // Kept while the same sweep fills in, so a pinned square stays open
+    setActiveSweep(prev => prev?.fen === evaluatedFen && prev.piece === evaluatedPiece ? prev : { fen: evaluatedFen, piece: evaluatedPiece });
 
-    setHistoryStorage(prevStorage => {
-      // --- Use evaluatedFen as the key --- 
-      const fenKey = evaluatedFen; 
-      if (prevStorage[fenKey] && JSON.stringify(prevStorage[fenKey]) === JSON.stringify(kingDetailedEvaluations)) {
-          return prevStorage; 
-      }
-      // console.log('[ChessBoard Effect - New Evals] Updating historyStorage state for FEN:', fenKey);
-      const updatedStorage: FenHistoryStorage = {
-        ...prevStorage,
-        [fenKey]: kingDetailedEvaluations // Use evaluatedFen as key
-      };
-      return updatedStorage;
-    });
+    // --- Store under evaluatedFen and the swept piece; both sides to move share one entry --- 
+    const entry: FenHistoryEntry = { fen: evaluatedFen, piece: evaluatedPiece, evaluations: kingDetailedEvaluations };
+    if (kingOppositeTurnEvaluations) entry.oppositeTurnEvaluations = kingOppositeTurnEvaluations;
+    const serialized = JSON.stringify(entry);
+    if (serialized === lastSavedEntryRef.current) return;
+    lastSavedEntryRef.current = serialized;
+    putHistoryEntry(entry)
+      .then(summary => {
+        setHistoryError(null);
+        setHistorySummaries(prev => {
+          const others = (prev ?? []).filter(s => s.key !== summary.key);
+          return [...others, summary].sort((a, b) => a.createdAt - b.createdAt);
+        });
+      })
+      .catch(reportHistoryWriteError);
   // --- Add evaluatedFen to dependency array --- 
-  }, [kingDetailedEvaluations, evaluatedFen]); 
+  }, [kingDetailedEvaluations, kingOppositeTurnEvaluations, evaluatedFen, evaluatedPiece, reportHistoryWriteError]); 
 
   // --- useEffect for applying pending evaluation after animation delay ---
   useEffect(() => {
@@ -153,7 +336,9 @@ export function ChessBoard({
       // console.log('[ChessBoard Effect - Apply Pending Eval] Position changed, pending eval found. Setting timeout.'); // REMOVED
       evaluationTimeoutRef.current = setTimeout(() => {
         // console.log('[ChessBoard Effect - Apply Pending Eval] Timeout finished. Applying pending evaluation.'); // REMOVED
-        setActiveEvaluation(pendingEvaluation);
+        setActiveEvaluation(pendingEvaluation.evaluations);
+        setActiveDualEvaluation(pendingEvaluation.dual);
+        setActiveSweep(pendingEvaluation.sweep);
         setPendingEvaluation(null); 
         evaluationTimeoutRef.current = null;
       }, HISTORY_LOAD_ANIMATION_DELAY_MS);
@@ -167,21 +352,31 @@ export function ChessBoard({
   }, [position, pendingEvaluation]);
 
   // --- ADDED: Delete History Item Handler ---
-  const handleDeleteHistoryItem = useCallback((fenToDelete: string, event: React.MouseEvent) => {
+  const handleDeleteHistoryItem = useCallback((keyToDelete: string, event: React.MouseEvent) => {
     event.stopPropagation();
     // console.log('[ChessBoard Callback] handleDeleteHistoryItem FEN:', fenToDelete); // REMOVED
-    setHistoryStorage(prevStorage => {
-      const newStorage = { ...prevStorage };
-      delete newStorage[fenToDelete];
-      // console.log('[ChessBoard Callback] Updated historyStorage after delete:', newStorage); // REMOVED
-      return newStorage;
+    setHistorySummaries(prev => prev && prev.filter(s => s.key !== keyToDelete));
+    setSelectedHistoryKeys(prev => prev.filter(k => k !== keyToDelete));
+    deleteHistoryEntry(keyToDelete).catch(error => {
+      console.error('[ChessBoard Callback] Failed to delete history entry:', error);
+      setHistoryError('The entry could not be deleted from storage.');
     });
   }, []);
 
   // --- Modified handleHistoryClick ---
   const handleHistoryClick = useCallback(
-    (fen: string) => {
-       const evalMap = historyStorage[fen];
+    async (key: string) => {
+       let entry: FenHistoryEntry | null;
+       try {
+           entry = await getHistoryEntry(key);
+       } catch (error) {
+           console.error('[ChessBoard Callback] Failed to read history entry:', error);
+           setHistoryError('This history entry could not be read.');
+           return;
+       }
+       if (!entry) return;
+       const { fen, evaluations: evalMap } = entry;
+       onSweepPieceChange(entry.piece); // Evaluate again sweeps the same piece
        // console.log('[ChessBoard Callback] handleHistoryClick:', { fen, evalMap }); // REMOVED
        setActiveEvaluation({}); 
        setPendingEvaluation(null);
@@ -189,7 +384,8 @@ export function ChessBoard({
            clearTimeout(evaluationTimeoutRef.current);
            evaluationTimeoutRef.current = null;
        }
-       setPendingEvaluation(evalMap || {});
+       setSweepTrail([]);
+       setPendingEvaluation({ evaluations: evalMap || {}, dual: toDualEvaluation(fen, evalMap || {}, entry.oppositeTurnEvaluations), sweep: { fen, piece: entry.piece } });
        setPosition(fen);
        const newGame = new Chess();
        newGame.clear();
@@ -217,12 +413,67 @@ export function ChessBoard({
        }
        onPositionChange?.(fen);
     },
-    [onPositionChange, historyStorage]
+    [onPositionChange, onSweepPieceChange]
   );
 
+  // --- Square details: hover or click a swept square for its placement's best line ---
+  const isSweptSquare = useCallback((square: Square) =>
+    Boolean(activeEvaluation[square] || activeDualEvaluation?.w[square] || activeDualEvaluation?.b[square]),
+    [activeEvaluation, activeDualEvaluation]);
+
+  const pinned = pinnedSquare && pinnedSquare.sweep === activeSweep ? pinnedSquare.square : null;
+  const inspectedSquare = hoveredSquare && isSweptSquare(hoveredSquare) ? hoveredSquare : pinned;
+
+  const inspectedPlacements = useMemo((): InspectedPlacement[] => {
+    if (!activeSweep || !inspectedSquare) return [];
+    const sides = activeDualEvaluation ? (['w', 'b'] as const) : [parseFen(activeSweep.fen).turn];
+    return sides.map(side => ({
+      sideToMove: side,
+      fen: placementFen(activeSweep.fen, activeSweep.piece, inspectedSquare, side),
+      evaluation: (activeDualEvaluation ? activeDualEvaluation[side][inspectedSquare] : activeEvaluation[inspectedSquare]) ?? null,
+    }));
+  }, [activeSweep, inspectedSquare, activeEvaluation, activeDualEvaluation]);
+
+  const boardArrows = useMemo((): BoardArrow[] => [
+    ...analysisArrows,
+    ...inspectedPlacements.flatMap(({ sideToMove, evaluation }): BoardArrow[] => {
+      const move = evaluation?.pv?.[0] ?? evaluation?.bestMove;
+      return move ? [[move.slice(0, 2) as Square, move.slice(2, 4) as Square, INSPECT_ARROW_COLORS[sideToMove]]] : [];
+    }),
+  ], [analysisArrows, inspectedPlacements]);
+
+  // Loads the placement onto the board; the sweep it came from goes on the breadcrumb
+  const stepIntoPlacement = useCallback((placement: InspectedPlacement) => {
+    if (!activeSweep || !inspectedSquare) return;
+    setSweepTrail(prev => [...prev, { sweep: activeSweep, evaluations: activeEvaluation, dual: activeDualEvaluation, square: inspectedSquare, sideToMove: placement.sideToMove }]);
+    setPinnedSquare(null);
+    setHoveredSquare(null);
+    setActiveEvaluation({});
+    setPendingEvaluation(null);
+    if (evaluationTimeoutRef.current) { clearTimeout(evaluationTimeoutRef.current); evaluationTimeoutRef.current = null; }
+    handlePositionChange(placement.fen);
+  }, [activeSweep, inspectedSquare, activeEvaluation, activeDualEvaluation, handlePositionChange]);
+
+  // Back to a parent sweep, with the square that was stepped into pinned again
+  const returnToSweep = useCallback((index: number) => {
+    const step = sweepTrail[index];
+    if (!step) return;
+    setSweepTrail(prev => prev.slice(0, index));
+    onSweepPieceChange(step.sweep.piece);
+    setActiveEvaluation({});
+    setPinnedSquare({ sweep: step.sweep, square: step.square });
+    setPendingEvaluation({ evaluations: step.evaluations, dual: step.dual, sweep: step.sweep });
+    handlePositionChange(step.sweep.fen);
+  }, [sweepTrail, onSweepPieceChange, handlePositionChange]);
+
   // --- Other Callbacks (onSquareClick, etc.) --- 
   // These generally remain the same, ensure handlePositionChange is called correctly
   const onSquareClick = useCallback((square: Square) => {
+      // With no piece in hand, a click on a swept square pins its details instead of editing
+      if (!selectedPiece && activeSweep && !game.get(square) && isSweptSquare(square)) {
+          setPinnedSquare(prev => prev?.sweep === activeSweep && prev.square === square ? null : { sweep: activeSweep, square });
+          return;
+      }
       setActiveEvaluation({}); 
       setPendingEvaluation(null);
       if (evaluationTimeoutRef.current) { clearTimeout(evaluationTimeoutRef.current); evaluationTimeoutRef.current = null; }
@@ -235,7 +486,7 @@ export function ChessBoard({
               game.remove(square);
               // --- Reconstruct FEN to preserve turn ---
               const boardFen = game.fen().split(' ')[0];
-              const reconstructedFen = `${boardFen} ${currentTurn} - - 0 1`;
+              const reconstructedFen = composeFen(boardFen);
               handlePositionChange(reconstructedFen);
           }
           return;
@@ -252,7 +503,7 @@ export function ChessBoard({
           if (putResult) { 
               // --- Reconstruct FEN to preserve turn ---
               const boardFen = game.fen().split(' ')[0];
-              const reconstructedFen = `${boardFen} ${currentTurn} - - 0 1`;
+              const reconstructedFen = composeFen(boardFen);
               handlePositionChange(reconstructedFen); 
           } else { 
               console.error("Put fail"); 
@@ -263,7 +514,7 @@ export function ChessBoard({
           setSelectedPiece(null); 
       }
     // --- Add currentTurn to dependencies --- 
-    }, [game, selectedPiece, handlePositionChange, currentTurn]);
+    }, [game, selectedPiece, activeSweep, isSweptSquare, handlePositionChange, composeFen]);
 
    const onSquareRightClick = useCallback((square: Square) => {
       setActiveEvaluation({});
@@ -274,14 +525,14 @@ export function ChessBoard({
           if (removeResult) { 
               // --- Reconstruct FEN to preserve turn ---
               const boardFen = game.fen().split(' ')[0];
-              const reconstructedFen = `${boardFen} ${currentTurn} - - 0 1`;
+              const reconstructedFen = composeFen(boardFen);
               handlePositionChange(reconstructedFen); 
           } else { 
               console.warn("Remove empty"); 
           }
       } catch (error) { console.error('Remove error', error); }
     // --- Add currentTurn to dependencies --- 
-    }, [game, handlePositionChange, currentTurn]);
+    }, [game, handlePositionChange, composeFen]);
 
    const onPieceDrop = useCallback((sourceSquare: Square, targetSquare: Square) => {
       setActiveEvaluation({});
@@ -294,15 +545,16 @@ export function ChessBoard({
           game.put(piece, targetSquare);
           // --- Reconstruct FEN to preserve turn ---
           const boardFen = game.fen().split(' ')[0];
-          const reconstructedFen = `${boardFen} ${currentTurn} - - 0 1`;
+          const reconstructedFen = composeFen(boardFen);
           handlePositionChange(reconstructedFen); 
           return true;
       } catch (error) { console.error('Drop error', error); return false; }
     // --- Add currentTurn to dependencies --- 
-    }, [game, handlePositionChange, currentTurn]);
+    }, [game, handlePositionChange, composeFen]);
 
    const clearBoard = useCallback(() => {
       setActiveEvaluation({}); // Clear evals first
+      setSweepTrail([]);
       setPendingEvaluation(null);
       if (evaluationTimeoutRef.current) { clearTimeout(evaluationTimeoutRef.current); evaluationTimeoutRef.current = null; }
       
@@ -312,11 +564,12 @@ export function ChessBoard({
       
       // --- Reconstruct FEN to preserve turn ---
       const boardFen = newGame.fen().split(' ')[0]; // Will be '8/8/...' 
-      const reconstructedFen = `${boardFen} ${currentTurn} - - 0 1`;
+      // Castling and en passant cannot survive an empty board
+      const reconstructedFen = formatFen({ ...parseFen(composeFen(boardFen)), castling: '-', enPassant: '-' });
       handlePositionChange(reconstructedFen); 
       
    // --- Add currentTurn to dependencies --- 
-   }, [handlePositionChange, currentTurn]);
+   }, [handlePositionChange, composeFen]);
 
   console.log('[ChessBoard Render] State before return:', { position, activeEvaluation, pendingEvaluation });
   // --- Render --- 
@@ -332,27 +585,123 @@ export function ChessBoard({
               onSquareRightClick={onSquareRightClick}
               onPieceDrop={onPieceDrop}
               boardWidth={BOARD_WIDTH}
+              customSquareStyles={problemSquareStyles}
+              onMouseOverSquare={square => setHoveredSquare(square)}
+              onMouseOutSquare={square => setHoveredSquare(prev => prev === square ? null : prev)}
+              customArrows={boardArrows}
             />
             {/* --- Overlay Rendering Change: Use activeEvaluation + getEvaluationEmoji --- */}
             <div className="evaluation-overlays" style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'none', }} >
-              {Object.entries(activeEvaluation) // Iterate over detailed results
+              {Object.entries(activeDualEvaluation ? { ...activeDualEvaluation.w, ...activeDualEvaluation.b, ...activeEvaluation } : activeEvaluation) // Iterate over detailed results
                   .map(([square, detailedEval]) => { // Get square and its detailed eval
-                     const emoji = getEvaluationEmoji(detailedEval); // Convert detail to emoji for display
-                     if (!emoji) return null; // Don't render anything if no emoji
-
                      const fileIndex = square.charCodeAt(0) - 'a'.charCodeAt(0);
                      const rankIndex = 8 - parseInt(square[1]);
                      const top = rankIndex * SQUARE_SIZE;
                      const left = fileIndex * SQUARE_SIZE;
+
+                     // Both-sides sweep: white to move in the upper left half, black to move in the lower right
+                     if (activeDualEvaluation) {
+                       const whiteToMove = activeDualEvaluation.w[square];
+                       const blackToMove = activeDualEvaluation.b[square];
+                       const whiteEmoji = getEvaluationEmoji(whiteToMove);
+                       const blackEmoji = getEvaluationEmoji(blackToMove);
+                       const whiteScale = evaluationToScale(whiteToMove, thresholds);
+                       const blackScale = evaluationToScale(blackToMove, thresholds);
+                       const isHeatmap = overlayMode === 'heatmap';
+                       const anyIllegal = whiteToMove?.illegal || blackToMove?.illegal;
+                       if (!anyIllegal && (isHeatmap ? whiteScale === null && blackScale === null : !whiteEmoji && !blackEmoji)) return null;
+                       const zugzwang = isZugzwang(whiteToMove, blackToMove);
+                       // Heatmap: each half is coloured on its own, the diagonal line comes from the CSS
+                       const fill = isHeatmap
+                         ? `linear-gradient(to bottom right, ${whiteScale !== null ? heatmapColor(whiteScale) : 'transparent'} 50%, ${blackScale !== null ? heatmapColor(blackScale) : 'transparent'} 50%)`
+                         : undefined;
+                       const whiteLabel = whiteToMove?.illegal ? ILLEGAL_MARK : isHeatmap ? (showValues ? formatEvaluation(whiteToMove) : '') : whiteEmoji;
+                       const blackLabel = blackToMove?.illegal ? ILLEGAL_MARK : isHeatmap ? (showValues ? formatEvaluation(blackToMove) : '') : blackEmoji;
+                       const provisional = whiteToMove?.refinement === 'provisional' || blackToMove?.refinement === 'provisional';
+                       return (
+                         <div key={square} className={`evaluation-split${isHeatmap ? ' heat' : ''}${zugzwang ? ' zugzwang' : ''}${provisional ? ' provisional' : ''}`} title={`White to move: ${whiteToMove?.illegal ?? (formatEvaluation(whiteToMove) || '?')}${refinementTitle(whiteToMove)}, Black to move: ${blackToMove?.illegal ?? (formatEvaluation(blackToMove) || '?')}${refinementTitle(blackToMove)}${zugzwang ? ' (zugzwang)' : ''}`} style={{ position: 'absolute', top: `${top}px`, left: `${left}px`, width: `${SQUARE_SIZE}px`, height: `${SQUARE_SIZE}px`, background: fill, zIndex: 2, }} >
+                           <span className="split-white">{whiteLabel}</span>
+                           <span className="split-black">{blackLabel}</span>
+                           {zugzwang && <span className="zugzwang-badge">ZZ</span>}
+                         </div>
+                       );
+                     }
+
+                     // Placements that give an illegal position were skipped by the sweep
+                     if (detailedEval?.illegal) {
+                       return (
+                         <div key={square} className="evaluation-emoji illegal" title={detailedEval.illegal} style={{ position: 'absolute', top: `${top}px`, left: `${left}px`, width: `${SQUARE_SIZE}px`, height: `${SQUARE_SIZE}px`, display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '20px', zIndex: 2, }} >
+                           {ILLEGAL_MARK}
+                         </div>
+                       );
+                     }
+
+                     // Tablebase and solver results are proven, mark them so they stand out from engine guesses
+                     const isProven = detailedEval?.source === 'tablebase' || detailedEval?.source === 'retrograde';
+                     const badge = isProven
+                       ? <span className="proven-badge">{detailedEval?.source === 'retrograde' ? 'DTM' : 'TB'}</span>
+                       : detailedEval?.refinement === 'refined' && <span className="depth-badge">d{detailedEval.depth}</span>;
+
+                     // Heatmap: continuous colour from score or mate distance, optionally with the value printed
+                     if (overlayMode === 'heatmap') {
+                       const scale = evaluationToScale(detailedEval, thresholds);
+                       if (scale === null) return null;
+                       return (
+                         <div key={square} className={`evaluation-emoji heat${isProven ? ' proven' : ''}${refinementClass(detailedEval)}`} title={provenTitle(detailedEval) ?? formatEvaluation(detailedEval) + refinementTitle(detailedEval)} style={{ position: 'absolute', top: `${top}px`, left: `${left}px`, width: `${SQUARE_SIZE}px`, height: `${SQUARE_SIZE}px`, display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '14px', fontWeight: '600', color: 'rgba(0, 0, 0, 0.75)', background: heatmapColor(scale), zIndex: 2, }} >
+                           {showValues && formatEvaluation(detailedEval)}
+                           {badge}
+                         </div>
+                       );
+                     }
+
+                     const emoji = getEvaluationEmoji(detailedEval); // Convert detail to emoji for display
+                     if (!emoji) return null; // Don't render anything if no emoji
                      return (
-                       <div key={square} className="evaluation-emoji" style={{ position: 'absolute', top: `${top}px`, left: `${left}px`, width: `${SQUARE_SIZE}px`, height: `${SQUARE_SIZE}px`, display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '24px', fontWeight: '500', color: 'rgba(0, 0, 0, 0.75)', zIndex: 2, }} >
+                       <div key={square} className={`evaluation-emoji${isProven ? ' proven' : ''}${refinementClass(detailedEval)}`} title={provenTitle(detailedEval) ?? (refinementTitle(detailedEval).trim() || undefined)} style={{ position: 'absolute', top: `${top}px`, left: `${left}px`, width: `${SQUARE_SIZE}px`, height: `${SQUARE_SIZE}px`, display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '24px', fontWeight: '500', color: 'rgba(0, 0, 0, 0.75)', zIndex: 2, }} >
                          {emoji} {/* Display the calculated emoji */} 
+                         {badge}
                        </div>
                      );
                  })
               }
             </div>
           </div>
+          {sweepTrail.length > 0 && (
+            <div className="sweep-breadcrumb">
+              {sweepTrail.map((step, i) => (
+                <span key={i} className="sweep-breadcrumb-step">
+                  <button onClick={() => returnToSweep(i)} title={step.sweep.fen}>{pieceSymbol(step.sweep.piece)} sweep</button>
+                  <span className="sweep-breadcrumb-separator">›</span>
+                  <span>{pieceSymbol(step.sweep.piece)}{step.square}, {step.sideToMove === 'w' ? 'White' : 'Black'} to move</span>
+                  {i < sweepTrail.length - 1 && <span className="sweep-breadcrumb-separator">›</span>}
+                </span>
+              ))}
+            </div>
+          )}
+          {activeSweep && inspectedSquare && (
+            <SquareInspector
+              square={inspectedSquare}
+              pieceSymbol={pieceSymbol(activeSweep.piece)}
+              placements={inspectedPlacements}
+              pinned={inspectedSquare === pinned}
+              stepInDisabled={isEvaluatingKings}
+              onStepIn={stepIntoPlacement}
+              onUnpin={() => setPinnedSquare(null)}
+            />
+          )}
+          {positionProblems.length > 0 && (
+            <ul className="position-problems">
+              {positionProblems.map((problem, i) => <li key={i}>{problem.message}</li>)}
+            </ul>
+          )}
+          <EvaluationLegend
+            mode={overlayMode}
+            onModeChange={setOverlayMode}
+            showValues={showValues}
+            onShowValuesChange={setShowValues}
+            thresholds={thresholds}
+            onThresholdsChange={onThresholdsChange}
+          />
         </div>
 
         {/* Piece Buttons & Controls */}
@@ -376,8 +725,61 @@ export function ChessBoard({
               </div>
             </div>
           </div>
+          <div className="worker-count-container">
+            <label className="turn-selector-label" htmlFor="worker-count">Engine workers:</label>
+            <input
+              id="worker-count"
+              type="number"
+              min={1}
+              max={32}
+              value={workerCount}
+              disabled={isEvaluatingKings}
+              onChange={e => {
+                const count = parseInt(e.target.value);
+                if (count >= 1 && count <= 32) onWorkerCountChange(count);
+              }}
+            />
+          </div>
+          <EngineProfileSelect consumer="sweep" label="Sweep profile:" disabled={isEvaluatingKings} />
           <button onClick={clearBoard} style={{ marginTop: '10px' }} > Clear Board </button>
+          <div className="sweep-piece-container">
+            <label className="turn-selector-label" htmlFor="sweep-piece">Sweep piece:</label>
+            <select
+              id="sweep-piece"
+              value={sweepPiece ?? ''}
+              disabled={isEvaluatingKings}
+              onChange={e => onSweepPieceChange(e.target.value ? e.target.value as PieceCode : null)}
+            >
+              <option value="">Missing king</option>
+              {PIECES.map(({ symbol, type, name }) => <option key={type} value={type}>{symbol} {name}</option>)}
+            </select>
+          </div>
+          <label className="sweep-both-sides">
+            <input type="checkbox" checked={sweepBothSides} disabled={isEvaluatingKings} onChange={e => onSweepBothSidesChange(e.target.checked)} />
+            Both sides to move
+          </label>
+          <label className="sweep-both-sides" title="Scan every square at a low depth, then search the undecided squares deeper until the budget is spent">
+            <input type="checkbox" checked={progressiveSweep.enabled} disabled={isEvaluatingKings} onChange={e => onProgressiveSweepChange({ ...progressiveSweep, enabled: e.target.checked })} />
+            Progressive
+          </label>
+          {progressiveSweep.enabled && (
+            <label className="sweep-both-sides">
+              Budget (s):
+              <input
+                type="number"
+                min={1}
+                value={progressiveSweep.budgetSeconds}
+                disabled={isEvaluatingKings}
+                onChange={e => {
+                  const budgetSeconds = parseInt(e.target.value);
+                  if (budgetSeconds > 0) onProgressiveSweepChange({ ...progressiveSweep, budgetSeconds });
+                }}
+                style={{ width: '60px', marginLeft: '4px' }}
+              />
+            </label>
+          )}
           <button className="evaluate-button" onClick={onEvaluateKingPositions} disabled={isEvaluatingKings} > {isEvaluatingKings ? 'Evaluating...' : 'Evaluate'} </button>
+          {sweepError && <div className="sweep-error">{sweepError}</div>}
         </div>
 
         {/* --- History Sidebar Change: Add delete button --- */}
@@ -394,34 +796,120 @@ export function ChessBoard({
           }} 
         >
           <h3>History</h3>
-          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-            {/* Get FENs from the keys of the storage object */}
-            {Object.keys(historyStorage).map((fenKey) => (
-              <li 
-                key={fenKey} 
-                className="history-item" // Keep class
-                // --- Apply bold style conditionally --- 
-                style={{ 
-                  cursor: 'pointer', 
-                  marginBottom: '8px', 
-                  wordBreak: 'break-all', 
-                  fontSize: '11px',
-                  fontWeight: fenKey === position ? 'bold' : 'normal' // Bold if active
-                }} 
-                onClick={() => handleHistoryClick(fenKey)} // Click li to load
-              >
-                <code>{fenKey}</code>
-                {/* Delete Button (Bin Emoji) */}
-                <span 
-                  className="delete-btn" 
-                  title="Delete this entry" 
-                  onClick={(e) => handleDeleteHistoryItem(fenKey, e)} // Click span to delete
-                >
-                  🗑️
-                </span>
-              </li>
-            ))}
-          </ul>
+          {historyError && <div className="history-error">{historyError}</div>}
+          {historySummaries === null && <div className="history-loading">Loading history...</div>}
+          {historySummaries && (
+            <HistoryTransfer keys={filteredHistory.map(s => s.key)} selectedKeys={selectedHistoryKeys} onImported={reloadHistory} />
+          )}
+          {historySummaries && historySummaries.length > 0 && (
+            <div className="history-filters">
+              <input
+                type="search"
+                placeholder="Search FEN, name, tags, notes"
+                value={historyFilter.query}
+                onChange={e => updateHistoryFilter({ query: e.target.value })}
+              />
+              <div className="history-filter-row">
+                <select value={historyFilter.signature ?? ''} onChange={e => updateHistoryFilter({ signature: e.target.value || null })}>
+                  <option value="">All material</option>
+                  {historySignatures.map(signature => <option key={signature} value={signature}>{signature}</option>)}
+                </select>
+                <select value={historyFilter.turn ?? ''} onChange={e => updateHistoryFilter({ turn: (e.target.value || null) as HistoryFilter['turn'] })}>
+                  <option value="">Either side to move</option>
+                  <option value="w">White to move</option>
+                  <option value="b">Black to move</option>
+                </select>
+                <label title="Hide entries without any evaluated square">
+                  <input type="checkbox" checked={historyFilter.withResultsOnly} onChange={e => updateHistoryFilter({ withResultsOnly: e.target.checked })} />
+                  With results
+                </label>
+              </div>
+              {isFilterActive(historyFilter) && (
+                <div className="history-filter-count">
+                  {filteredHistory.length} of {historySummaries.length} shown
+                  <button onClick={() => updateHistoryFilter(EMPTY_HISTORY_FILTER)}>Clear</button>
+                </div>
+              )}
+            </div>
+          )}
+          {/* Only the first page is rendered, long histories grow on demand */}
+          {historyGroups.map(group => (
+            <div key={group.signature} className="history-group">
+              <h4 className="history-group-title">{group.signature} <span>({group.entries.length})</span></h4>
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+                {group.entries.map((entry) => (
+                  <li 
+                    key={entry.key} 
+                    className="history-item" // Keep class
+                    // --- Apply bold style conditionally --- 
+                    style={{ 
+                      cursor: 'pointer', 
+                      marginBottom: '8px', 
+                      wordBreak: 'break-all', 
+                      fontSize: '11px',
+                      fontWeight: entry.fen === position ? 'bold' : 'normal' // Bold if active
+                    }} 
+                    onClick={() => handleHistoryClick(entry.key)} // Click li to load
+                  >
+                    <input
+                      type="checkbox"
+                      className="history-select"
+                      title="Select for export"
+                      checked={selectedHistoryKeys.includes(entry.key)}
+                      onClick={e => e.stopPropagation()} // Selecting must not load the entry
+                      onChange={e => toggleHistorySelection(entry.key, e.target.checked)}
+                    />
+                    <span className="history-piece" title={`Sweep of the ${PIECES.find(p => p.type === entry.piece)?.name.toLowerCase()}`}>{pieceSymbol(entry.piece)}</span>
+                    {entry.details?.name && <span className="history-name">{entry.details.name}</span>}
+                    <code>{entry.fen}</code>
+                    {entry.details && entry.details.tags.length > 0 && (
+                      <div className="history-tags">
+                        {entry.details.tags.map(tag => <span key={tag} className="history-tag">{tag}</span>)}
+                      </div>
+                    )}
+                    {entry.details?.notes && <div className="history-notes">{entry.details.notes}</div>}
+                    {editingHistoryKey === entry.key && (
+                      <HistoryDetailsEditor
+                        details={entry.details}
+                        onSave={details => handleSaveHistoryDetails(entry.key, details)}
+                        onCancel={() => setEditingHistoryKey(null)}
+                      />
+                    )}
+                    <span
+                      className="practice-btn"
+                      title="Practice: place the swept piece and play the position against the engine"
+                      onClick={(e) => { e.stopPropagation(); navigate(practicePath(entry.fen, entry.piece)); }}
+                    >
+                      🎯
+                    </span>
+                    <span
+                      className="edit-btn"
+                      title="Name, tag or annotate this entry"
+                      onClick={(e) => { e.stopPropagation(); setEditingHistoryKey(key => key === entry.key ? null : entry.key); }}
+                    >
+                      ✏️
+                    </span>
+                    {/* Delete Button (Bin Emoji) */}
+                    <span 
+                      className="delete-btn" 
+                      title="Delete this entry" 
+                      onClick={(e) => handleDeleteHistoryItem(entry.key, e)} // Click span to delete
+                    >
+                      🗑️
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {historySummaries && historySummaries.length > 0 && filteredHistory.length === 0 && (
+            <div className="history-loading">No entries match the filters.</div>
+          )}
+          {filteredHistory.length > historyLimit && (
+            <button className="history-more" onClick={() => setHistoryLimit(limit => limit + HISTORY_PAGE_SIZE)}>
+              Show more ({filteredHistory.length - historyLimit} left)
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { DeepLink, decodeDeepLink, encodeDeepLink } from '../utils/deepLink';
+
+interface DeepLinkSyncProps {
+  link: DeepLink;                   // Current state of the sweep page
+  onOpen: (link: DeepLink) => void; // A link was opened, or back/forward reached another entry
+}
+
+// Keeps the query string of the sweep page in step with its state. Every edited position is
+// a new browser history entry; sweep settings and results replace the current one. Renders
+// nothing, it only exists to reach the router from inside <Router>.
+export function DeepLinkSync({ link, onOpen }: DeepLinkSyncProps) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const search = encodeDeepLink(link);
+  const searchRef = useRef(search);
+  searchRef.current = search;
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+  const locationSearchRef = useRef(location.search);
+  locationSearchRef.current = location.search;
+  const writtenRef = useRef<string | null>(null); // Last state written, null before the first run
+
+  // URL to state: opened links and back/forward
+  useEffect(() => {
+    if (location.search === searchRef.current) return;
+    const opened = decodeDeepLink(location.search);
+    if (opened) onOpenRef.current(opened);
+  }, [location.search]);
+
+  // State to URL; location changes only go the other way, so the URL is read through a ref
+  useEffect(() => {
+    const current = decodeDeepLink(locationSearchRef.current);
+    if (writtenRef.current === null) {
+      writtenRef.current = search;
+      // A link being opened is applied first; a bare URL gets the starting position, so
+      // going back to the first entry restores it
+      if (!current) navigate({ search }, { replace: true });
+      return;
+    }
+    if (writtenRef.current === search) return; // StrictMode runs effects twice
+    writtenRef.current = search;
+    if (search === locationSearchRef.current) return;
+    navigate({ search }, { replace: current?.fen === decodeDeepLink(search)?.fen });
+  }, [search, navigate]);
+
+  return null;
+}
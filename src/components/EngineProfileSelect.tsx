@@ -0,0 +1,21 @@
+import { useEngineProfiles } from '../hooks/useEngineProfiles';
+import { EngineConsumer, formatLimit } from '../utils/engineProfiles';
+
+interface EngineProfileSelectProps {
+  consumer: EngineConsumer;
+  label?: string;
+  disabled?: boolean;
+}
+
+// Which engine profile a page uses; the profiles themselves are edited in EngineSettingsPanel
+export function EngineProfileSelect({ consumer, label = 'Engine profile', disabled }: EngineProfileSelectProps) {
+  const { profiles, profile, selectProfile } = useEngineProfiles(consumer);
+  return (
+    <label className="engine-profile-select" title={formatLimit(profile.limit)}>
+      {label}
+      <select value={profile.id} onChange={e => selectProfile(e.target.value)} disabled={disabled}>
+        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { UciOptionMessage } from '../utils/uci';
+import {
+  createProfileId,
+  deleteEngineProfile,
+  EngineProfile,
+  getEngineProfileState,
+  saveEngineProfile,
+  SearchLimitKind,
+  subscribeEngineProfiles,
+} from '../utils/engineProfiles';
+import { clearEvaluationCache } from '../utils/evaluationCache';
+
+interface EngineSettingsPanelProps {
+  declaredOptions: UciOptionMessage[]; // Options the engine listed after "uci"
+}
+
+// A new kind starts from its own default; 1000 ms is no sensible depth
+const LIMIT_KINDS: { kind: SearchLimitKind; label: string; unit: string; defaultValue: number }[] = [
+  { kind: 'movetime', label: 'Time', unit: 'ms', defaultValue: 1000 },
+  { kind: 'depth', label: 'Depth', unit: 'plies', defaultValue: 20 },
+  { kind: 'nodes', label: 'Nodes', unit: 'nodes', defaultValue: 1_000_000 },
+];
+
+// Options the app sets itself or that make no sense in the browser build
+const HIDDEN_OPTIONS = new Set(['UCI_Chess960', 'Ponder', 'EvalFile', 'SyzygyPath', 'Debug Log File', 'MultiPV']);
+
+// Edits the engine profiles. Every change is saved at once and reaches the pages using the
+// profile before their next search.
+export function EngineSettingsPanel({ declaredOptions }: EngineSettingsPanelProps) {
+  const { profiles } = useSyncExternalStore(subscribeEngineProfiles, getEngineProfileState);
+  const [editingId, setEditingId] = useState<string>(profiles[0].id);
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
+  const profile = profiles.find(p => p.id === editingId) ?? profiles[0];
+
+  const update = (changes: Partial<EngineProfile>) => saveEngineProfile({ ...profile, ...changes });
+
+  // Values equal to the engine default are dropped, so the profile only lists real changes
+  const setOption = (option: UciOptionMessage, value: string) => {
+    const options = { ...profile.options };
+    if (value === option.default) delete options[option.name];
+    else options[option.name] = value;
+    update({ options });
+  };
+
+  const addProfile = (base: EngineProfile | null) => {
+    const name = base ? `${base.name} (copy)` : 'New profile';
+    const created: EngineProfile = base
+      ? { ...base, id: createProfileId(name), name, options: { ...base.options } }
+      : { id: createProfileId(name), name, options: {}, limit: { kind: 'movetime', value: 1000 } };
+    saveEngineProfile(created);
+    setEditingId(created.id);
+  };
+
+  const handleClearCache = () => {
+    clearEvaluationCache()
+      .then(() => setCacheStatus('Cache cleared'))
+      .catch(error => {
+        console.error('[EngineSettingsPanel] Failed to clear the evaluation cache:', error);
+        setCacheStatus('The cache could not be cleared');
+      });
+  };
+
+  const renderOption = (option: UciOptionMessage) => {
+    const value = profile.options[option.name] ?? option.default ?? '';
+    switch (option.optionType) {
+      case 'check':
+        return <input type="checkbox" checked={value === 'true'} onChange={e => setOption(option, String(e.target.checked))} />;
+      case 'spin':
+        return (
+          <input
+            type="number"
+            min={option.min}
+            max={option.max}
+            value={value}
+            onChange={e => {
+              const parsed = parseInt(e.target.value);
+              if (isNaN(parsed)) return;
+              const clamped = Math.min(option.max ?? parsed, Math.max(option.min ?? parsed, parsed));
+              setOption(option, String(clamped));
+            }}
+          />
+        );
+      case 'combo':
+        return (
+          <select value={value} onChange={e => setOption(option, e.target.value)}>
+            {option.vars.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        );
+      default:
+        return <input type="text" value={value} onChange={e => setOption(option, e.target.value)} />;
+    }
+  };
+
+  const limitKind = LIMIT_KINDS.find(l => l.kind === profile.limit.kind)!;
+  const visibleOptions = declaredOptions.filter(option => option.optionType !== 'button' && !HIDDEN_OPTIONS.has(option.name));
+
+  return (
+    <div className="engine-settings-panel">
+      <h3>Engine profiles</h3>
+      <div className="engine-settings-row">
+        <select value={profile.id} onChange={e => setEditingId(e.target.value)}>
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button onClick={() => addProfile(null)}>New</button>
+        <button onClick={() => addProfile(profile)}>Duplicate</button>
+        <button onClick={() => deleteEngineProfile(profile.id)} disabled={profiles.length <= 1}>Delete</button>
+      </div>
+      <div className="engine-settings-row">
+        <label>
+          Name
+          <input type="text" value={profile.name} onChange={e => update({ name: e.target.value })} />
+        </label>
+      </div>
+      <div className="engine-settings-row">
+        <label>
+          Search limit
+          <select
+            value={profile.limit.kind}
+            onChange={e => {
+              const kind = LIMIT_KINDS.find(l => l.kind === e.target.value)!;
+              update({ limit: { kind: kind.kind, value: kind.defaultValue } });
+            }}
+          >
+            {LIMIT_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+          </select>
+        </label>
+        <input
+          type="number"
+          min={1}
+          value={profile.limit.value}
+          onChange={e => {
+            const value = parseInt(e.target.value);
+            if (value > 0) update({ limit: { ...profile.limit, value } });
+          }}
+        />
+        <span>{limitKind.unit}</span>
+      </div>
+      {visibleOptions.length > 0 ? (
+        <table className="engine-options">
+          <tbody>
+            {visibleOptions.map(option => (
+              <tr key={option.name} className={option.name in profile.options ? 'changed' : undefined}>
+                <td title={option.default !== undefined ? `Default: ${option.default || '(empty)'}` : undefined}>{option.name}</td>
+                <td>{renderOption(option)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="tablebase-summary">Engine options appear once the engine has started</div>
+      )}
+      <div className="engine-settings-row">
+        <button onClick={handleClearCache}>Clear evaluation cache</button>
+        {cacheStatus && <span className="tablebase-summary">{cacheStatus}</span>}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 import React, { useState } from 'react';
-import { useStockfish, EvaluationResult } from '../hooks/useStockfish';
+import { useStockfish, EvaluationResult, DEFAULT_WORKER_COUNT } from '../hooks/useStockfish';
+import { useEngineProfiles } from '../hooks/useEngineProfiles';
+import { EngineProfileSelect } from './EngineProfileSelect';
+import { EngineSettingsPanel } from './EngineSettingsPanel';
+import { BatchEvaluation } from './BatchEvaluation';
 
 export function EngineTest() {
   const [fenInput, setFenInput] = useState<string>('');
   const [result, setResult] = useState<EvaluationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const { isReady: engineReady, evaluateFen } = useStockfish();
+  const { profile } = useEngineProfiles('test');
+  // Batches run on as many engines as the sweep page is set to use
+  const [workerCount] = useState<number>(() => parseInt(window.localStorage.getItem('engineWorkerCount') ?? '') || DEFAULT_WORKER_COUNT);
+  const { isReady: engineReady, declaredOptions, evaluateFen } = useStockfish({ workerCount, engineOptions: profile.options });
 
   const handleEvaluate = async () => {
     setError(null);
@@ -15,7 +22,8 @@ export function EngineTest() {
       return;
     }
     try {
-      const res = await evaluateFen(fenInput, 1000);
+      // Ahead of the queued batch positions, which share the pool
+      const res = await evaluateFen(fenInput, profile.limit, { priority: 'high' });
       setResult(res);
     } catch (e: any) {
       console.error('Evaluation error', e);
@@ -37,6 +45,9 @@ export function EngineTest() {
           style={{ width: '100%', padding: '8px', fontSize: '14px', boxSizing: 'border-box' }}
         />
       </div>
+      <div style={{ marginBottom: '10px' }}>
+        <EngineProfileSelect consumer="test" />
+      </div>
       <button
         onClick={handleEvaluate}
         disabled={!engineReady || !fenInput.trim()}
@@ -57,6 +68,12 @@ export function EngineTest() {
           </pre>
         </div>
       )}
+
+      <BatchEvaluation engineReady={engineReady} evaluateFen={evaluateFen} limit={profile.limit} profileName={profile.name} />
+
+      <div style={{ marginTop: '20px' }}>
+        <EngineSettingsPanel declaredOptions={declaredOptions} />
+      </div>
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { EvaluationThresholds, heatmapColor, isValidThresholds } from '../utils/evaluationScale';
+
+export type OverlayMode = 'emoji' | 'heatmap';
+
+interface EvaluationLegendProps {
+  mode: OverlayMode;
+  onModeChange: (mode: OverlayMode) => void;
+  showValues: boolean; // Print the score or mate distance on heatmap squares
+  onShowValuesChange: (show: boolean) => void;
+  thresholds: EvaluationThresholds;
+  onThresholdsChange: (thresholds: EvaluationThresholds) => void;
+}
+
+const GRADIENT_STOPS = [-1, -0.6, -0.2, 0, 0.2, 0.6, 1];
+
+// Overlay mode switch, win/draw thresholds and the colour legend under the board
+export function EvaluationLegend({ mode, onModeChange, showValues, onShowValuesChange, thresholds, onThresholdsChange }: EvaluationLegendProps) {
+  // Inputs keep what is typed; only a valid pair (win > draw >= 0) is passed up
+  const [draft, setDraft] = useState({ win: String(thresholds.win), draw: String(thresholds.draw) });
+  useEffect(() => {
+    setDraft({ win: String(thresholds.win), draw: String(thresholds.draw) });
+  }, [thresholds]);
+
+  const updateThreshold = (field: keyof EvaluationThresholds, value: string) => {
+    const nextDraft = { ...draft, [field]: value };
+    setDraft(nextDraft);
+    const next = { win: parseInt(nextDraft.win), draw: parseInt(nextDraft.draw) };
+    if (isValidThresholds(next)) onThresholdsChange(next);
+  };
+
+  // Stops are spread evenly, so every threshold gets a label right under its colour
+  const stopPosition = (i: number) => (i / (GRADIENT_STOPS.length - 1)) * 100;
+  const gradient = GRADIENT_STOPS.map((stop, i) => `${heatmapColor(stop, 1)} ${stopPosition(i)}%`).join(', ');
+  const labels = ['Black mates', `-${thresholds.win}`, `-${thresholds.draw}`, '0', `+${thresholds.draw}`, `+${thresholds.win}`, 'White mates']
+    .map((text, i) => ({ text, at: stopPosition(i) }));
+
+  return (
+    <div className="evaluation-legend">
+      <div className="overlay-mode">
+        <label>
+          <input type="radio" name="overlay-mode" checked={mode === 'emoji'} onChange={() => onModeChange('emoji')} />
+          Emoji
+        </label>
+        <label>
+          <input type="radio" name="overlay-mode" checked={mode === 'heatmap'} onChange={() => onModeChange('heatmap')} />
+          Heatmap
+        </label>
+        <label>
+          <input type="checkbox" checked={showValues} disabled={mode !== 'heatmap'} onChange={e => onShowValuesChange(e.target.checked)} />
+          Show values
+        </label>
+      </div>
+      <div className="legend-thresholds">
+        <label>
+          Win above
+          <input type="number" min={1} step={10} value={draft.win} onChange={e => updateThreshold('win', e.target.value)} />
+          cp
+        </label>
+        <label>
+          Draw within
+          <input type="number" min={0} step={10} value={draft.draw} onChange={e => updateThreshold('draw', e.target.value)} />
+          cp
+        </label>
+      </div>
+      {mode === 'heatmap' && (
+        <div className="legend-scale">
+          <div className="legend-gradient" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+          <div className="legend-labels">
+            {labels.map(({ text, at }) => (
+              <span key={at} style={{ left: `${at}%` }}>{text}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FenFields, formatFen, isWellFormedFen, parseFen } from '../utils/fen';
+import { validateFen } from '../utils/positionValidation';
+import { practicePath } from '../utils/practice';
+
+interface FenEditorProps {
+  fen: string;
+  onFenChange: (fen: string) => void;
+}
+
+const CASTLING_RIGHTS = [
+  { right: 'K', label: 'White O-O' },
+  { right: 'Q', label: 'White O-O-O' },
+  { right: 'k', label: 'Black O-O' },
+  { right: 'q', label: 'Black O-O-O' },
+];
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+// FEN entry plus the fields the board editor cannot show: castling rights, the en passant
+// target and the move counters
+export function FenEditor({ fen, onFenChange }: FenEditorProps) {
+  const [draft, setDraft] = useState(fen);
+  const [error, setError] = useState<string | null>(null);
+  const fields = parseFen(fen);
+  const navigate = useNavigate();
+  const playable = validateFen(fen).length === 0;
+
+  useEffect(() => {
+    setDraft(fen);
+    setError(null);
+  }, [fen]);
+
+  const loadDraft = () => {
+    if (!isWellFormedFen(draft)) {
+      setError('Not a valid FEN: expected 8 ranks of pieces and digits, then the side to move');
+      return;
+    }
+    onFenChange(formatFen(parseFen(draft)));
+  };
+
+  const updateFields = (changes: Partial<FenFields>) => onFenChange(formatFen({ ...fields, ...changes }));
+
+  const toggleCastling = (right: string, enabled: boolean) => {
+    const rights = CASTLING_RIGHTS.map(c => c.right)
+      .filter(r => r === right ? enabled : fields.castling.includes(r))
+      .join('');
+    updateFields({ castling: rights || '-' });
+  };
+
+  // The target square sits behind the pawn that just moved, so it depends on the side to move
+  const enPassantRank = fields.turn === 'w' ? '6' : '3';
+
+  return (
+    <div className="fen-editor">
+      <h3>Current Position (FEN):</h3>
+      <div className="fen-input-row">
+        <input
+          type="text"
+          value={draft}
+          spellCheck={false}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') loadDraft(); }}
+        />
+        <button onClick={loadDraft} disabled={draft === fen}>Load</button>
+        <button
+          onClick={() => navigate(practicePath(fen))}
+          disabled={!playable}
+          title={playable ? 'Play this position against the engine' : 'Only a legal position can be practiced'}
+        >
+          Practice
+        </button>
+      </div>
+      {error && <div className="fen-error">{error}</div>}
+      <div className="fen-fields">
+        <fieldset>
+          <legend>Castling</legend>
+          {CASTLING_RIGHTS.map(({ right, label }) => (
+            <label key={right} title={label}>
+              <input type="checkbox" checked={fields.castling.includes(right)} onChange={e => toggleCastling(right, e.target.checked)} />
+              {right}
+            </label>
+          ))}
+        </fieldset>
+        <label>
+          En passant
+          <select value={fields.enPassant} onChange={e => updateFields({ enPassant: e.target.value })}>
+            <option value="-">-</option>
+            {FILES.map(file => `${file}${enPassantRank}`).map(square => <option key={square} value={square}>{square}</option>)}
+          </select>
+        </label>
+        <label title="Plies since the last capture or pawn move (50-move rule)">
+          Halfmove clock
+          <input type="number" min={0} max={150} value={fields.halfmove} onChange={e => updateFields({ halfmove: Math.max(0, parseInt(e.target.value) || 0) })} />
+        </label>
+        <label>
+          Move
+          <input type="number" min={1} value={fields.fullmove} onChange={e => updateFields({ fullmove: Math.max(1, parseInt(e.target.value) || 1) })} />
+        </label>
+      </div>
+    </div>
+  );
+}
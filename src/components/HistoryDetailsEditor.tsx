@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import type { HistoryDetails } from '../utils/historyStore';
+import { parseTags } from '../utils/historySearch';
+
+interface HistoryDetailsEditorProps {
+  details: HistoryDetails | undefined;
+  onSave: (details: HistoryDetails) => void;
+  onCancel: () => void;
+}
+
+// Inline form under a history entry for its name, tags and notes
+export function HistoryDetailsEditor({ details, onSave, onCancel }: HistoryDetailsEditorProps) {
+  const [name, setName] = useState(details?.name ?? '');
+  const [tags, setTags] = useState(details?.tags.join(', ') ?? '');
+  const [notes, setNotes] = useState(details?.notes ?? '');
+
+  const save = () => onSave({ name: name.trim(), tags: parseTags(tags), notes: notes.trim() });
+
+  return (
+    // Clicks inside the form must not load the entry
+    <div className="history-details-editor" onClick={e => e.stopPropagation()}>
+      <input type="text" placeholder="Name" value={name} onChange={e => setName(e.target.value)} autoFocus />
+      <input type="text" placeholder="Tags, comma separated" value={tags} onChange={e => setTags(e.target.value)} />
+      <textarea placeholder="Notes" rows={3} value={notes} onChange={e => setNotes(e.target.value)} />
+      <div className="history-details-actions">
+        <button onClick={save}>Save</button>
+        <button onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
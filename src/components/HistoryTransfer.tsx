@@ -0,0 +1,97 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { getHistoryEntries } from '../utils/historyStore';
+import {
+  ConflictPolicy,
+  downloadText,
+  historyToEpd,
+  historyToPgn,
+  importHistory,
+  parseHistoryFile,
+  serializeHistory,
+} from '../utils/historyTransfer';
+
+interface HistoryTransferProps {
+  keys: string[];         // Entries the sidebar filters let through, oldest first
+  selectedKeys: string[]; // Exports are limited to these when any are selected
+  onImported: () => void; // The history list needs to be reloaded
+}
+
+type ExportFormat = 'json' | 'epd' | 'pgn';
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; write: typeof serializeHistory }> = {
+  json: { label: 'JSON', mimeType: 'application/json', write: serializeHistory },
+  epd: { label: 'EPD', mimeType: 'text/plain', write: historyToEpd },
+  pgn: { label: 'PGN', mimeType: 'application/x-chess-pgn', write: historyToPgn },
+};
+
+const CONFLICT_POLICIES: { policy: ConflictPolicy; label: string }[] = [
+  { policy: 'deeper', label: 'Keep the deeper result' },
+  { policy: 'mine', label: 'Keep mine' },
+  { policy: 'theirs', label: 'Keep theirs' },
+];
+
+// Export and import buttons of the history sidebar. Only JSON files can be imported; EPD and
+// PGN are for other chess tools.
+export function HistoryTransfer({ keys, selectedKeys, onImported }: HistoryTransferProps) {
+  const [policy, setPolicy] = useState<ConflictPolicy>('deeper');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportKeys = selectedKeys.length > 0 ? selectedKeys : keys;
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    try {
+      const entries = await getHistoryEntries(exportKeys);
+      const { write, mimeType } = EXPORT_FORMATS[format];
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadText(`evaluation-history-${stamp}.${format}`, write(entries), mimeType);
+      setStatus({ message: `Exported ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`, error: false });
+    } catch (error) {
+      console.error('[HistoryTransfer] Export failed:', error);
+      setStatus({ message: 'The history could not be exported.', error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again should import it again
+    if (!file) return;
+    setBusy(true);
+    try {
+      const entries = parseHistoryFile(await file.text());
+      const { added, merged, unchanged } = await importHistory(entries, policy);
+      setStatus({ message: `Imported ${file.name}: ${added} added, ${merged} merged, ${unchanged} unchanged`, error: false });
+    } catch (error) {
+      console.error('[HistoryTransfer] Import failed:', error);
+      setStatus({ message: error instanceof Error ? error.message : 'The file could not be imported.', error: true });
+    } finally {
+      setBusy(false);
+      onImported();
+    }
+  };
+
+  return (
+    <div className="history-transfer">
+      <div className="history-transfer-row">
+        <span>Export {selectedKeys.length > 0 ? `${selectedKeys.length} selected` : `${keys.length} shown`}:</span>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+          <button key={format} onClick={() => handleExport(format)} disabled={busy || exportKeys.length === 0}>
+            {EXPORT_FORMATS[format].label}
+          </button>
+        ))}
+      </div>
+      <div className="history-transfer-row">
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy}>Import JSON</button>
+        <select value={policy} onChange={e => setPolicy(e.target.value as ConflictPolicy)} title="Squares evaluated in both histories" disabled={busy}>
+          {CONFLICT_POLICIES.map(({ policy, label }) => <option key={policy} value={policy}>{label}</option>)}
+        </select>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} hidden />
+      </div>
+      {status && <div className={status.error ? 'history-error' : 'history-transfer-status'}>{status.message}</div>}
+    </div>
+  );
+}
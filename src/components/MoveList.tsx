@@ -0,0 +1,53 @@
+import { Chess } from 'chess.js';
+import { parseFen } from '../utils/fen';
+import { startingFen } from '../utils/gameRecord';
+
+interface MoveListProps {
+  game: Chess;
+  viewPly: number; // Moves shown on the board
+  onSelect: (ply: number) => void;
+}
+
+// SAN moves in numbered rows; clicking a move shows the position after it
+export function MoveList({ game, viewPly, onSelect }: MoveListProps) {
+  const moves = game.history();
+  const start = parseFen(startingFen(game));
+  const offset = start.turn === 'b' ? 1 : 0; // Black to move leaves the first row's white half empty
+  const rows: { number: number; plies: (number | null)[] }[] = [];
+  for (let slot = 0; slot < moves.length + offset; slot += 2) {
+    rows.push({
+      number: start.fullmove + slot / 2,
+      plies: [slot, slot + 1].map(s => s - offset + 1).map(ply => ply >= 1 && ply <= moves.length ? ply : null),
+    });
+  }
+  const last = moves.length;
+
+  return (
+    <div className="move-list">
+      <div className="move-list-nav">
+        <button onClick={() => onSelect(0)} disabled={viewPly === 0} title="Start position">⏮</button>
+        <button onClick={() => onSelect(viewPly - 1)} disabled={viewPly === 0} title="Previous move">◀</button>
+        <button onClick={() => onSelect(viewPly + 1)} disabled={viewPly === last} title="Next move">▶</button>
+        <button onClick={() => onSelect(last)} disabled={viewPly === last} title="Current position">⏭</button>
+      </div>
+      {rows.length === 0 ? (
+        <div className="move-list-empty">No moves yet</div>
+      ) : (
+        <ol className="move-list-rows">
+          {rows.map(({ number, plies }) => (
+            <li key={number}>
+              <span className="move-number">{number}.</span>
+              {plies.map((ply, i) => ply === null
+                ? <span key={i} className="move-san">…</span>
+                : (
+                  <span key={i} className={`move-san clickable${ply === viewPly ? ' current' : ''}`} onClick={() => onSelect(ply)}>
+                    {moves[ply - 1]}
+                  </span>
+                ))}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
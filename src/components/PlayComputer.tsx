@@ -1,13 +1,138 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Chessboard } from 'react-chessboard';
 import { Chess, Square } from 'chess.js';
+import { parseUciLine, UciOptionMessage } from '../utils/uci';
+import { useEngineProfiles } from '../hooks/useEngineProfiles';
+import { useChessClock } from '../hooks/useChessClock';
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { formatLimit, goCommand, setOptionCommands } from '../utils/engineProfiles';
+import { fenAtPly, gamePgn, withMove, withoutMoves } from '../utils/gameRecord';
+import { downloadText } from '../utils/historyTransfer';
+import { evaluationOutcome, formatEvaluation, loadThresholds } from '../utils/evaluationScale';
+import { parseFen } from '../utils/fen';
+import { FenHistoryEntry, getHistoryEntry, historyKey } from '../utils/historyStore';
+import { validateFen } from '../utils/positionValidation';
+import { decodePracticeQuery, findStoredEvaluation, flagOutcome, gameOutcome, practiceVerdict } from '../utils/practice';
+import {
+  clockGoCommand,
+  ELO_RANGE,
+  EngineStrength,
+  formatClock,
+  formatStrength,
+  pgnTimeControl,
+  isLowTime,
+  loadPlaySettings,
+  PlaySettings,
+  savePlaySettings,
+  SKILL_LEVEL_RANGE,
+  strengthOptions,
+  TimeControl,
+} from '../utils/playSettings';
+import { pieceFromCode, placementFen } from '../utils/sweep';
+import { EngineProfileSelect } from './EngineProfileSelect';
+import { MoveList } from './MoveList';
+
+const STANDARD_FEN = new Chess().fen();
+const SIDE_NAMES = { w: 'White', b: 'Black' };
+const DEFAULT_TIME_CONTROL: TimeControl = { minutes: 5, increment: 3 };
+// First value when switching to a limited strength
+const DEFAULT_STRENGTHS: Record<EngineStrength['kind'], EngineStrength> = {
+  full: { kind: 'full' },
+  skill: { kind: 'skill', level: 10 },
+  elo: { kind: 'elo', elo: 1500 },
+};
 
 export function PlayComputer() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Set when the page was opened to practice a position from the editor or the history
+  const practice = useMemo(() => decodePracticeQuery(location.search), [location.search]);
+  const [startFen, setStartFen] = useState<string | null>(STANDARD_FEN); // null until the swept piece is placed
+  const [placingEntry, setPlacingEntry] = useState<FenHistoryEntry | null>(null); // History entry whose piece the user places
+  const [storedEvaluation, setStoredEvaluation] = useState<EvaluationResult | null>(null); // White's perspective
+  const [practiceError, setPracticeError] = useState<string | null>(null);
+  const [userColor, setUserColor] = useState<'w' | 'b'>('w');
   const [game, setGame] = useState(new Chess());
+  const [viewPly, setViewPly] = useState<number | null>(null); // Move shown on the board, null follows the game
+  const gameRef = useRef(game); // Current game for the engine's message handler
+  gameRef.current = game;
+  // Every "go" gets the next id, and the nth bestmove answers the nth go; only the answer to the
+  // search in activeSearchRef is played, so a reply computed for an abandoned position is dropped
+  const searchIdRef = useRef(0);
+  const answeredIdRef = useRef(0);
+  const activeSearchRef = useRef<{ id: number; fen: string } | null>(null);
   const [isEngineThinking, setIsEngineThinking] = useState(false);
   const [engineReady, setEngineReady] = useState(false);
   const [engineVersion, setEngineVersion] = useState<string>('');
   const engineRef = useRef<Worker | null>(null);
+  const { profile } = useEngineProfiles('play');
+  const appliedOptionsRef = useRef<Record<string, string>>({}); // Options already sent to the engine
+  const declaredOptionsRef = useRef<UciOptionMessage[]>([]); // From the engine's reply to "uci"
+  const [settings, setSettings] = useState<PlaySettings>(loadPlaySettings);
+  const { remaining, running, flagged, start: startClock, press: pressClock, stop: stopClock, reset: resetClock } = useChessClock(settings.timeControl);
+  const thresholds = useMemo(loadThresholds, []);
+  const expectedOutcome = evaluationOutcome(storedEvaluation, thresholds);
+
+  // The user takes the side the stored evaluation favours, so the engine defends; without a
+  // conclusive evaluation the side to move
+  // Abandons the engine's search, if one is still running
+  const dropSearch = useCallback(() => {
+    if (searchIdRef.current > answeredIdRef.current) engineRef.current?.postMessage('stop');
+    activeSearchRef.current = null;
+    setIsEngineThinking(false);
+  }, []);
+
+  const startGame = useCallback((fen: string, evaluation: EvaluationResult | null) => {
+    const outcome = evaluationOutcome(evaluation, thresholds);
+    dropSearch();
+    setStartFen(fen);
+    setPlacingEntry(null);
+    setStoredEvaluation(evaluation);
+    setUserColor(outcome === 1 ? 'w' : outcome === -1 ? 'b' : parseFen(fen).turn);
+    setGame(new Chess(fen));
+  }, [thresholds, dropSearch]);
+
+  useEffect(() => {
+    setPracticeError(null);
+    if (!practice) {
+      startGame(STANDARD_FEN, null);
+      return;
+    }
+    let cancelled = false;
+    if (practice.piece) {
+      // A history entry: the board shows the swept position until the user places the piece
+      setStartFen(null);
+      setStoredEvaluation(null);
+      setGame(new Chess());
+      getHistoryEntry(historyKey(practice.fen, practice.piece))
+        .then(entry => {
+          if (cancelled) return;
+          if (entry) setPlacingEntry(entry);
+          else setPracticeError('This history entry no longer exists.');
+        })
+        .catch(error => {
+          console.error('[PlayComputer] Failed to read the history entry:', error);
+          if (!cancelled) setPracticeError('The history entry could not be read.');
+        });
+    } else {
+      const problems = validateFen(practice.fen);
+      if (problems.length > 0) {
+        setStartFen(null);
+        setPracticeError(`This position cannot be played: ${problems[0].message}`);
+        return;
+      }
+      // The game starts once the stored evaluation is known, it decides the user's side
+      setStartFen(null);
+      findStoredEvaluation(practice.fen)
+        .catch(error => {
+          console.error('[PlayComputer] Failed to look up the stored evaluation:', error);
+          return null;
+        })
+        .then(evaluation => { if (!cancelled) startGame(practice.fen, evaluation); });
+    }
+    return () => { cancelled = true; };
+  }, [practice, startGame]);
 
   useEffect(() => {
     const initStockfish = () => {
@@ -18,36 +143,39 @@ export function PlayComputer() {
         stockfish.onmessage = (event: MessageEvent) => {
           const message = event.data;
           console.log('Engine:', message);
+          const parsed = parseUciLine(message);
           
-          if (message.includes('Stockfish')) {
+          if (parsed.type === 'id' && parsed.field === 'name') {
             // Extract version from the identification message
-            setEngineVersion(message);
-            console.log('Engine version:', message);
+            setEngineVersion(parsed.value);
+            console.log('Engine version:', parsed.value);
           }
           
-          if (message === 'readyok' || message.includes('Stockfish')) {
+          if (parsed.type === 'option') declaredOptionsRef.current.push(parsed);
+
+          if (parsed.type === 'readyok' || (parsed.type === 'id' && parsed.field === 'name')) {
             console.log('Stockfish engine is ready');
             setEngineReady(true);
           }
           
-          if (message.startsWith('bestmove')) {
-            const moveMatch = message.match(/bestmove\s+(\w+)/);
-            if (moveMatch) {
-              const bestMove = moveMatch[1];
-              const from = bestMove.slice(0, 2) as Square;
-              const to = bestMove.slice(2, 4) as Square;
-              const promotion = bestMove.length > 4 ? bestMove[4] : undefined;
-              
-              // Make the engine's move
-              const newGame = new Chess(game.fen());
-              newGame.move({ from, to, promotion });
-              setGame(newGame);
-              setIsEngineThinking(false);
-            }
+          if (parsed.type === 'bestmove') {
+            // The game may have been restarted or taken back while the engine was thinking
+            const id = ++answeredIdRef.current;
+            if (activeSearchRef.current?.id !== id || !parsed.move) return;
+            activeSearchRef.current = null;
+            const bestMove = parsed.move;
+            const from = bestMove.slice(0, 2) as Square;
+            const to = bestMove.slice(2, 4) as Square;
+            const promotion = bestMove.length > 4 ? bestMove[4] : undefined;
+            
+            // Make the engine's move
+            const newGame = withMove(gameRef.current, { from, to, promotion });
+            if (newGame) setGame(newGame);
+            setIsEngineThinking(false);
           }
         };
 
-        stockfish.onerror = (error) => {
+        stockfish.onerror = (error: ErrorEvent) => {
           console.error('Stockfish worker error:', error);
         };
 
@@ -71,38 +199,152 @@ export function PlayComputer() {
     };
   }, []);
 
+  useEffect(() => {
+    savePlaySettings(settings);
+  }, [settings]);
+
   const makeEngineMove = useCallback(() => {
-    if (!engineRef.current || !engineReady || game.isGameOver()) return;
+    if (!engineRef.current || !engineReady || game.isGameOver() || activeSearchRef.current?.fen === game.fen()) return;
     
     setIsEngineThinking(true);
+    // A profile or strength change applies from the next engine move; options can't change mid-search
+    // An option no longer set goes back to its declared default, as in useStockfish
+    const engineOptions = { ...profile.options, ...strengthOptions(settings.strength) };
+    const applied = appliedOptionsRef.current;
+    const changes = Object.fromEntries(Object.entries(engineOptions).filter(([name, value]) => applied[name] !== value));
+    for (const name of Object.keys(applied)) {
+      if (name in engineOptions) continue;
+      const declared = declaredOptionsRef.current.find(option => option.name === name);
+      if (declared?.default !== undefined) changes[name] = declared.default;
+    }
+    setOptionCommands(changes).forEach(command => engineRef.current!.postMessage(command));
+    appliedOptionsRef.current = engineOptions;
     engineRef.current.postMessage('position fen ' + game.fen());
-    engineRef.current.postMessage('go movetime 20000'); // 20 seconds per move
-  }, [game, engineReady]);
-
-  const onDrop = (sourceSquare: Square, targetSquare: Square): boolean => {
-    try {
-      // Make the player's move
-      const move = game.move({
-        from: sourceSquare,
-        to: targetSquare,
-        promotion: 'q' // Always promote to queen for simplicity
-      });
-
-      if (move === null) return false;
-
-      // Create a new game with the updated position
-      const newGame = new Chess(game.fen());
-      setGame(newGame);
-
-      // Make engine move in response
-      makeEngineMove();
-      
-      return true;
-    } catch (error) {
-      return false;
+    activeSearchRef.current = { id: ++searchIdRef.current, fen: game.fen() };
+    engineRef.current.postMessage(settings.timeControl ? clockGoCommand(remaining(), settings.timeControl) : goCommand(profile.limit));
+  }, [game, engineReady, profile, settings, remaining]);
+
+  // The clock follows the game: a new game starts the side to move's clock, every move switches
+  // it, and a takeback hands it back without an increment. Declared before the engine's turn so
+  // the engine sees the clock after the switch.
+  const clockPlyRef = useRef(0);
+  useEffect(() => {
+    const ply = game.history().length;
+    const previousPly = clockPlyRef.current;
+    clockPlyRef.current = ply;
+    setViewPly(null);
+    if (startFen === null) return;
+    if (game.isGameOver()) {
+      stopClock();
+    } else if (ply === 0) {
+      resetClock();
+      startClock(game.turn());
+    } else if (ply === previousPly + 1) {
+      pressClock(game.turn() === 'w' ? 'b' : 'w');
+    } else {
+      stopClock();
+      startClock(game.turn());
+    }
+  }, [game, startFen, startClock, pressClock, stopClock, resetClock]);
+
+  // A flag fall ends the game; the search still running is dropped
+  useEffect(() => {
+    if (flagged) dropSearch();
+  }, [flagged, dropSearch]);
+
+  // The engine moves whenever it is its turn, also at the start when the user took the side not to move
+  useEffect(() => {
+    if (startFen !== null && !flagged && !game.isGameOver() && game.turn() !== userColor) makeEngineMove();
+  }, [game, startFen, flagged, userColor, makeEngineMove]);
+
+  // After a promotion the board passes the piece picked in its dialog, e.g. "wN"
+  const onDrop = (sourceSquare: Square, targetSquare: Square, piece: string): boolean => {
+    if (startFen === null || flagged || viewPly !== null || isEngineThinking || game.turn() !== userColor) return false;
+    const isPromotion = game.get(sourceSquare)?.type === 'p' && (targetSquare[1] === '8' || targetSquare[1] === '1');
+    // Make the player's move
+    const newGame = withMove(game, {
+      from: sourceSquare,
+      to: targetSquare,
+      promotion: isPromotion ? piece[1].toLowerCase() : undefined,
+    });
+    if (!newGame) return false;
+    setGame(newGame);
+    return true;
+  };
+
+  // Placing the swept piece of a history entry picks the position to practice
+  const onSquareClick = (square: Square) => {
+    if (!placingEntry) return;
+    const turn = parseFen(placingEntry.fen).turn;
+    const fen = placementFen(placingEntry.fen, placingEntry.piece, square, turn);
+    const problems = validateFen(fen);
+    if (problems.length > 0) {
+      setPracticeError(`Not a legal position: ${problems[0].message}`);
+      return;
     }
+    setPracticeError(null);
+    startGame(fen, placingEntry.evaluations[square] ?? null);
   };
 
+  const restart = () => {
+    if (startFen === null) return;
+    dropSearch();
+    setGame(new Chess(startFen));
+  };
+
+  // Takes back the user's last move and the engine's reply, or only the user's move while the
+  // engine is still thinking about it
+  const takeBack = () => {
+    const moves = game.history().length;
+    const plies = game.turn() === userColor ? 2 : 1;
+    if (moves < plies) return;
+    dropSearch();
+    setGame(withoutMoves(game, plies));
+  };
+
+  const exportPgn = () => {
+    const engine = `${engineVersion || 'Engine'} (${formatStrength(settings.strength)})`;
+    const extra: Record<string, string> = {
+      EngineProfile: profile.name,
+      EngineStrength: formatStrength(settings.strength),
+    };
+    if (!settings.timeControl) extra.EngineLimit = formatLimit(profile.limit);
+    const options = Object.entries(profile.options).map(([name, value]) => `${name}=${value}`).join('; ');
+    if (options) extra.EngineOptions = options;
+    const pgn = gamePgn(game, result, {
+      event: practice ? 'Endgame practice' : 'Game against the computer',
+      white: userColor === 'w' ? 'You' : engine,
+      black: userColor === 'b' ? 'You' : engine,
+      timeControl: settings.timeControl && pgnTimeControl(settings.timeControl),
+      termination: flagged ? 'time forfeit' : null,
+      extra,
+    });
+    downloadText(`game-${new Date().toISOString().slice(0, 10)}.pgn`, pgn, 'application/x-chess-pgn');
+  };
+
+  const changeSide = (color: 'w' | 'b') => {
+    setUserColor(color);
+    restart();
+  };
+
+  // A new time control only makes sense from the start of a game
+  const changeTimeControl = (timeControl: TimeControl | null) => {
+    setSettings(prev => ({ ...prev, timeControl }));
+    restart();
+  };
+
+  const result = flagged ? flagOutcome(game, flagged) : gameOutcome(game);
+  const clockTimes = remaining();
+  const renderClock = (color: 'w' | 'b') => settings.timeControl && (
+    <div className={`play-clock${running === color ? ' running' : ''}${isLowTime(clockTimes[color]) ? ' low' : ''}${flagged === color ? ' flagged' : ''}`}>
+      <span>{SIDE_NAMES[color]}{color === userColor ? ' (you)' : ''}</span>
+      <span className="play-clock-time">{formatClock(clockTimes[color])}</span>
+    </div>
+  );
+  const placedPiece = placingEntry && pieceFromCode(placingEntry.piece);
+  const shownPly = viewPly ?? game.history().length;
+  const canTakeBack = startFen !== null && !flagged && game.history().length >= (game.turn() === userColor ? 2 : 1);
+
   return (
     <div style={{ 
       padding: '20px',
@@ -120,39 +362,157 @@ export function PlayComputer() {
           {engineVersion}
         </div>
       )}
+      <div style={{ marginBottom: '10px' }}>
+        <EngineProfileSelect consumer="play" label="Engine profile" disabled={isEngineThinking} />
+        <label style={{ marginLeft: '12px' }}>
+          You play
+          <select value={userColor} onChange={e => changeSide(e.target.value as 'w' | 'b')} disabled={isEngineThinking || startFen === null} style={{ marginLeft: '4px' }}>
+            <option value="w">White</option>
+            <option value="b">Black</option>
+          </select>
+        </label>
+      </div>
+      <div className="play-settings">
+        <label>
+          Strength
+          <select
+            value={settings.strength.kind}
+            onChange={e => setSettings(prev => ({ ...prev, strength: DEFAULT_STRENGTHS[e.target.value as EngineStrength['kind']] }))}
+            disabled={isEngineThinking}
+          >
+            <option value="full">Full strength</option>
+            <option value="skill">Skill level</option>
+            <option value="elo">Elo</option>
+          </select>
+        </label>
+        {settings.strength.kind === 'skill' && (
+          <input
+            type="number"
+            min={SKILL_LEVEL_RANGE.min}
+            max={SKILL_LEVEL_RANGE.max}
+            value={settings.strength.level}
+            disabled={isEngineThinking}
+            onChange={e => {
+              const level = parseInt(e.target.value);
+              if (level >= SKILL_LEVEL_RANGE.min && level <= SKILL_LEVEL_RANGE.max) setSettings(prev => ({ ...prev, strength: { kind: 'skill', level } }));
+            }}
+          />
+        )}
+        {settings.strength.kind === 'elo' && (
+          <input
+            type="number"
+            min={ELO_RANGE.min}
+            max={ELO_RANGE.max}
+            step={50}
+            value={settings.strength.elo}
+            disabled={isEngineThinking}
+            onChange={e => {
+              const elo = parseInt(e.target.value);
+              if (elo >= ELO_RANGE.min && elo <= ELO_RANGE.max) setSettings(prev => ({ ...prev, strength: { kind: 'elo', elo } }));
+            }}
+          />
+        )}
+        <label title="With a clock the engine manages its own time instead of using the profile's search limit">
+          <input
+            type="checkbox"
+            checked={settings.timeControl !== null}
+            disabled={isEngineThinking}
+            onChange={e => changeTimeControl(e.target.checked ? DEFAULT_TIME_CONTROL : null)}
+          />
+          Clock
+        </label>
+        {settings.timeControl && (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={settings.timeControl.minutes}
+              disabled={isEngineThinking}
+              onChange={e => {
+                const minutes = parseInt(e.target.value);
+                if (minutes > 0) changeTimeControl({ ...settings.timeControl!, minutes });
+              }}
+            />
+            <span>min +</span>
+            <input
+              type="number"
+              min={0}
+              value={settings.timeControl.increment}
+              disabled={isEngineThinking}
+              onChange={e => {
+                const increment = parseInt(e.target.value);
+                if (increment >= 0) changeTimeControl({ ...settings.timeControl!, increment });
+              }}
+            />
+            <span>s</span>
+          </>
+        )}
+      </div>
+      {practice && (
+        <div className="practice-info">
+          {placedPiece
+            ? `Click a square to place the ${SIDE_NAMES[placedPiece.color].toLowerCase()} ${placedPiece.type.toUpperCase()}, then play the position.`
+            : startFen !== null && (storedEvaluation
+              ? `Stored evaluation: ${formatEvaluation(storedEvaluation)}`
+              : 'No stored evaluation for this position.')}
+          {practiceError && <div className="practice-error">{practiceError}</div>}
+        </div>
+      )}
       <div style={{ marginBottom: '20px' }}>
         {!engineReady ? (
           <div>Initializing engine...</div>
         ) : isEngineThinking ? (
           <div>Computer is thinking...</div>
-        ) : game.isGameOver() ? (
+        ) : result !== null ? (
           <div>
             Game Over! 
-            {game.isCheckmate() ? 
+            {flagged ?
+              ` ${SIDE_NAMES[flagged]} ran out of time${result === 0 ? ', but the opponent cannot mate: draw!' : ` – ${SIDE_NAMES[flagged === 'w' ? 'b' : 'w']} wins!`}` :
+              game.isCheckmate() ? 
               (game.turn() === 'w' ? ' Black wins!' : ' White wins!') : 
               game.isDraw() ? ' Draw!' : 
               ' Game over!'}
+            {practice && <div className="practice-verdict">{practiceVerdict(expectedOutcome, result, userColor)}</div>}
           </div>
-        ) : (
+        ) : startFen !== null && (
           <div>
-            {game.turn() === 'w' ? "Your turn (White)" : "Computer is playing..."}
+            {game.turn() === userColor ? `Your turn (${SIDE_NAMES[userColor]})` : "Computer is playing..."}
           </div>
         )}
       </div>
       
-      <div style={{ width: '500px', margin: '0 auto' }}>
-        <Chessboard
-          position={game.fen()}
-          onPieceDrop={onDrop}
-          boardWidth={500}
-          areArrowsAllowed={false}
-        />
+      <div className="play-board-row">
+        <div style={{ width: '500px' }}>
+          {renderClock(userColor === 'w' ? 'b' : 'w')}
+          <Chessboard
+            position={placingEntry ? placingEntry.fen : viewPly !== null ? fenAtPly(game, viewPly) : game.fen()}
+            onPieceDrop={onDrop}
+            onSquareClick={onSquareClick}
+            boardOrientation={userColor === 'w' ? 'white' : 'black'}
+            boardWidth={500}
+            areArrowsAllowed={false}
+          />
+          {renderClock(userColor)}
+        </div>
+        {startFen !== null && <MoveList game={game} viewPly={shownPly} onSelect={ply => setViewPly(ply === game.history().length ? null : ply)} />}
       </div>
 
       <div style={{ marginTop: '20px' }}>
+        {practice && (
+          <button onClick={restart} disabled={startFen === null} style={{ padding: '10px 20px', fontSize: '16px', marginRight: '10px' }}>
+            Restart position
+          </button>
+        )}
+        <button onClick={takeBack} disabled={!canTakeBack} style={{ padding: '10px 20px', fontSize: '16px', marginRight: '10px' }}>
+          Take back
+        </button>
+        <button onClick={exportPgn} disabled={startFen === null} style={{ padding: '10px 20px', fontSize: '16px', marginRight: '10px' }}>
+          Export PGN
+        </button>
         <button
           onClick={() => {
-            setGame(new Chess());
+            if (practice) navigate('/play');
+            else restart();
           }}
           style={{ 
             padding: '10px 20px',
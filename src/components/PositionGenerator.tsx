@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  generatePositions,
+  GeneratorConstraints,
+  GeneratorSettings,
+  loadGeneratorSettings,
+  MAX_GENERATED,
+  parseMaterial,
+  QueuedSweep,
+  saveGeneratorSettings,
+  withoutPiece,
+} from '../utils/positionGenerator';
+import { PieceCode } from '../utils/sweep';
+
+interface PositionGeneratorProps {
+  onLoad: (fen: string) => void; // Put one position into the editor
+  onQueue: (sweeps: QueuedSweep[]) => void;
+  queuedCount: number; // Sweeps still waiting, the running one excluded
+  queueRunning: boolean; // False once the user loads another position
+  onResumeQueue: () => void;
+  onCancelQueue: () => void;
+}
+
+const PIECE_NAMES: Record<string, string> = { k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn' };
+
+const pieceLabel = (code: PieceCode) => `${code === code.toUpperCase() ? 'White' : 'Black'} ${PIECE_NAMES[code.toLowerCase()]}`;
+
+// Random legal positions of one endgame type, to load into the editor or to sweep one by one
+export function PositionGenerator({ onLoad, onQueue, queuedCount, queueRunning, onResumeQueue, onCancelQueue }: PositionGeneratorProps) {
+  const [settings, setSettings] = useState<GeneratorSettings>(loadGeneratorSettings);
+  const [positions, setPositions] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const material = useMemo(() => parseMaterial(settings.signature), [settings.signature]);
+  const sweepPieces = useMemo(() => [...new Set(material ?? [])], [material]);
+  const sweepPiece = sweepPieces.includes(settings.sweepPiece) ? settings.sweepPiece : 'k';
+
+  useEffect(() => {
+    saveGeneratorSettings(settings);
+  }, [settings]);
+
+  const updateConstraints = (changes: Partial<GeneratorConstraints>) =>
+    setSettings({ ...settings, constraints: { ...settings.constraints, ...changes } });
+
+  const generate = () => {
+    if (!material) return;
+    if (settings.constraints.pawnOnSeventh && !material.some(code => code === 'P' || code === 'p')) {
+      setMessage('A pawn on the 7th rank needs a pawn in the material');
+      return;
+    }
+    const generated = generatePositions(material, settings.constraints, settings.count);
+    setPositions(generated);
+    setMessage(generated.length < settings.count ? `Only ${generated.length} legal positions found for these constraints` : null);
+  };
+
+  const queueAll = () => {
+    onQueue(positions.map(fen => ({ fen: withoutPiece(fen, sweepPiece), piece: sweepPiece })));
+  };
+
+  return (
+    <div className="position-generator">
+      <h3>Position Generator</h3>
+      <div className="generator-settings">
+        <label>
+          Material
+          <input
+            type="text"
+            value={settings.signature}
+            spellCheck={false}
+            placeholder="KRPvKR"
+            title="White's pieces first, e.g. KRPvKR"
+            onChange={e => setSettings({ ...settings, signature: e.target.value })}
+          />
+        </label>
+        <label>
+          Count
+          <input
+            type="number"
+            min={1}
+            max={MAX_GENERATED}
+            value={settings.count}
+            onChange={e => {
+              const count = parseInt(e.target.value);
+              if (count >= 1 && count <= MAX_GENERATED) setSettings({ ...settings, count });
+            }}
+          />
+        </label>
+        <label>
+          To move
+          <select
+            value={settings.constraints.sideToMove ?? ''}
+            onChange={e => updateConstraints({ sideToMove: e.target.value === '' ? null : e.target.value as 'w' | 'b' })}
+          >
+            <option value="">Either</option>
+            <option value="w">White</option>
+            <option value="b">Black</option>
+          </select>
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.constraints.pawnOnSeventh} onChange={e => updateConstraints({ pawnOnSeventh: e.target.checked })} />
+          Pawn on the 7th
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.constraints.kingsInOpposition} onChange={e => updateConstraints({ kingsInOpposition: e.target.checked })} />
+          Kings in opposition
+        </label>
+        <button onClick={generate} disabled={!material}>Generate</button>
+      </div>
+      {!material && <div className="fen-error">Material is written like KRPvKR: a king and its pieces for White, "v", then Black's</div>}
+      {message && <div className="fen-error">{message}</div>}
+
+      {positions.length > 0 && (
+        <>
+          <ul className="generator-positions">
+            {positions.map(fen => (
+              <li key={fen}>
+                <code>{fen}</code>
+                <button onClick={() => onLoad(fen)}>Load</button>
+              </li>
+            ))}
+          </ul>
+          <div className="generator-queue">
+            <label>
+              Sweep
+              <select value={sweepPiece} onChange={e => setSettings({ ...settings, sweepPiece: e.target.value as PieceCode })}>
+                {sweepPieces.map(code => <option key={code} value={code}>{pieceLabel(code)}</option>)}
+              </select>
+            </label>
+            <button onClick={queueAll} title="Take the piece off each position and sweep it; the results go to the history">
+              Queue {positions.length} sweeps
+            </button>
+          </div>
+        </>
+      )}
+      {queuedCount > 0 && (
+        <div className="generator-queue">
+          {queuedCount} sweep{queuedCount === 1 ? '' : 's'} {queueRunning ? 'waiting' : 'paused'}
+          {!queueRunning && <button onClick={onResumeQueue}>Resume</button>}
+          <button onClick={onCancelQueue}>Cancel queue</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { Square } from 'chess.js';
+import { EvaluationResult } from '../hooks/useStockfish';
+import { formatEvaluation } from '../utils/evaluationScale';
+import { formatMoves, pvToSan } from '../utils/notation';
+
+// A swept square with one side to move: the position the sweep evaluated there
+export interface InspectedPlacement {
+  sideToMove: 'w' | 'b';
+  fen: string;
+  evaluation: EvaluationResult | null; // White's perspective
+}
+
+interface SquareInspectorProps {
+  square: Square;
+  pieceSymbol: string;
+  placements: InspectedPlacement[]; // One per side to move the sweep evaluated
+  pinned: boolean; // Clicked rather than only hovered
+  stepInDisabled: boolean;
+  onStepIn: (placement: InspectedPlacement) => void;
+  onUnpin: () => void;
+}
+
+function searchLabel(evaluation: EvaluationResult): string | null {
+  if (evaluation.source === 'tablebase') return 'tablebase';
+  if (evaluation.source === 'retrograde') return 'solved';
+  return evaluation.depth !== undefined ? `depth ${evaluation.depth}` : null;
+}
+
+// Score, depth and best line of the placement under the mouse or pinned by a click
+export function SquareInspector({ square, pieceSymbol, placements, pinned, stepInDisabled, onStepIn, onUnpin }: SquareInspectorProps) {
+  return (
+    <div className={`square-inspector${pinned ? ' pinned' : ''}`}>
+      <div className="square-inspector-header">
+        <strong>{pieceSymbol} on {square}</strong>
+        {pinned
+          ? <button className="square-inspector-unpin" onClick={onUnpin} title="Unpin">×</button>
+          : <span className="square-inspector-hint">Click the square to pin</span>}
+      </div>
+      {placements.map(placement => {
+        const { sideToMove, fen, evaluation } = placement;
+        const san = pvToSan(fen, evaluation?.pv ?? (evaluation?.bestMove ? [evaluation.bestMove] : []));
+        const label = evaluation && searchLabel(evaluation);
+        return (
+          <div key={sideToMove} className="square-inspector-placement">
+            <div className="square-inspector-summary">
+              <span className="square-inspector-side">{sideToMove === 'w' ? 'White' : 'Black'} to move</span>
+              {evaluation?.illegal
+                ? <span className="square-inspector-illegal">{evaluation.illegal}</span>
+                : <span className="square-inspector-score">{formatEvaluation(evaluation) || '?'}</span>}
+              {label && <span className="square-inspector-depth">{label}</span>}
+              <button onClick={() => onStepIn(placement)} disabled={stepInDisabled || !!evaluation?.illegal} title="Load this position onto the board">
+                Step in
+              </button>
+            </div>
+            {san.length > 0 && (
+              <div className="square-inspector-line">
+                Best <strong>{san[0]}</strong>
+                <span className="square-inspector-pv">{formatMoves(fen, san)}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
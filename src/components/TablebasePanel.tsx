@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SolverStatus } from '../hooks/useRetrograde';
+
+interface TablebasePanelProps {
+  tables: string[];
+  maxPieces: number;
+  onLoadFiles: (files: FileList) => void;
+  solvedTables: string[]; // Signatures the built-in solver has ready
+  missingTables: string[]; // Probed during sweeps, but not built yet
+  solverStatus: SolverStatus | null; // Table currently being generated
+  building: string | null; // Table asked for, which may wait on smaller ones first
+  buildError: string | null;
+  onBuildTable: (signature: string) => void;
+  onCancelBuild: () => void;
+}
+
+// Lets the user pick Syzygy WDL/DTZ files, one by one or a whole local folder, and shows
+// what the built-in solver has generated so far. Solver tables are built on request, since
+// one can take minutes; sweeps meanwhile fall back to the Syzygy files and the engine.
+export function TablebasePanel({
+  tables,
+  maxPieces,
+  onLoadFiles,
+  solvedTables,
+  missingTables,
+  solverStatus,
+  building,
+  buildError,
+  onBuildTable,
+  onCancelBuild,
+}: TablebasePanelProps) {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [signature, setSignature] = useState('');
+
+  // webkitdirectory is not part of React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files && event.target.files.length > 0) onLoadFiles(event.target.files);
+    event.target.value = ''; // Allow picking the same files again
+  };
+
+  return (
+    <div className="tablebase-panel">
+      <h3>Syzygy tablebases</h3>
+      <div className="tablebase-inputs">
+        <label>
+          Files
+          <input type="file" multiple accept=".rtbw,.rtbz" onChange={handleChange} />
+        </label>
+        <label>
+          Folder
+          <input type="file" ref={folderInputRef} onChange={handleChange} />
+        </label>
+      </div>
+      {tables.length > 0 ? (
+        <div className="tablebase-summary" title={tables.join(', ')}>
+          {tables.length} tables loaded, up to {maxPieces} pieces
+        </div>
+      ) : (
+        <div className="tablebase-summary">No tables loaded, larger endgames are judged by the engine</div>
+      )}
+      <h3>Built-in solver</h3>
+      {building ? (
+        <div className="tablebase-summary">
+          Building {building}
+          {solverStatus && `: solving ${solverStatus.signature}, ${solverStatus.ply} plies deep`}...
+          <button onClick={onCancelBuild}>Cancel</button>
+        </div>
+      ) : (
+        <div className="tablebase-summary" title={solvedTables.join(', ')}>
+          {solvedTables.length > 0
+            ? `${solvedTables.length} endgames solved, up to 4 pieces`
+            : 'Endgames with up to 4 pieces are solved exactly once their table is built'}
+        </div>
+      )}
+      {buildError && <div className="fen-error">Build failed, {buildError}</div>}
+      {!building && missingTables.length > 0 && (
+        <div className="tablebase-missing">
+          Not built yet:
+          {missingTables.map(missing => (
+            <button key={missing} onClick={() => onBuildTable(missing)} title="Generate this table in the background">
+              {missing}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="tablebase-build">
+        <input
+          type="text"
+          value={signature}
+          placeholder="KRvKN"
+          spellCheck={false}
+          title="White's pieces first, up to 4 pieces in all"
+          onChange={e => setSignature(e.target.value)}
+        />
+        <button onClick={() => onBuildTable(signature.trim().toUpperCase().replace('V', 'v'))} disabled={!!building || !signature.trim()}>
+          Build table
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Square } from 'chess.js';
+import { loadThresholds } from '../utils/evaluationScale';
+import { parseFen } from '../utils/fen';
+import { getHistoryEntries, listHistory } from '../utils/historyStore';
+import { pieceFromCode, piecesFromFen } from '../utils/sweep';
+import {
+  countDue,
+  DEFAULT_TRAINEE,
+  loadTrainerStore,
+  nextCard,
+  nextDueTime,
+  QuizCard,
+  QuizScore,
+  quizCards,
+  saveTrainerStore,
+  scheduleReview,
+  scoreAnswer,
+  TrainerStore,
+} from '../utils/trainer';
+
+const SIDE_NAMES = { w: 'White', b: 'Black' };
+const PIECE_NAMES: Record<string, string> = { k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn' };
+const CATEGORY_VERBS = { win: ['win', 'wins'], draw: ['draw', 'draws'], loss: ['lose', 'loses'] };
+const SQUARE_STYLES = {
+  picked: { background: 'rgba(76, 110, 245, 0.45)' },
+  hit: { background: 'rgba(47, 158, 68, 0.6)' },
+  wrong: { background: 'rgba(224, 49, 49, 0.6)' },
+  missed: { boxShadow: 'inset 0 0 0 4px rgba(245, 159, 0, 0.9)' },
+};
+
+function formatInterval(due: number | undefined): string {
+  if (due === undefined) return '?';
+  const minutes = Math.max(0, Math.round((due - Date.now()) / 60_000));
+  if (minutes < 60) return `${minutes} min`;
+  const days = Math.round(minutes / (60 * 24));
+  return days < 1 ? `${Math.round(minutes / 60)} h` : `${days} day${days === 1 ? '' : 's'}`;
+}
+
+// Quiz on the stored sweeps: the position is shown without the swept piece or any overlay,
+// and the trainee clicks every square where the piece's side wins, draws or loses
+export function Trainer() {
+  const [store, setStore] = useState<TrainerStore>(loadTrainerStore);
+  const [thresholds] = useState(loadThresholds);
+  const [cards, setCards] = useState<QuizCard[] | null>(null); // null while the history loads
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [card, setCard] = useState<QuizCard | null>(null);
+  const [picked, setPicked] = useState<string[]>([]);
+  const [result, setResult] = useState<QuizScore | null>(null);
+  const [newTrainee, setNewTrainee] = useState('');
+  const progress = useMemo(() => store.progress[store.trainee] ?? {}, [store]);
+  const progressRef = useRef(progress); // Picking the next card must not follow every review
+  progressRef.current = progress;
+
+  useEffect(() => {
+    saveTrainerStore(store);
+  }, [store]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory()
+      .then(summaries => getHistoryEntries(summaries.map(s => s.key)))
+      .then(entries => {
+        if (!cancelled) setCards(entries.flatMap(entry => quizCards(entry, thresholds)));
+      })
+      .catch(error => {
+        console.error('[Trainer] Failed to load the history:', error);
+        if (!cancelled) setLoadError('The history could not be read.');
+      });
+    return () => { cancelled = true; };
+  }, [thresholds]);
+
+  const showNextCard = useCallback(() => {
+    setCard(cards && nextCard(cards, progressRef.current, Date.now()));
+    setPicked([]);
+    setResult(null);
+  }, [cards]);
+
+  // A new trainee or a freshly loaded history starts with that trainee's next card
+  useEffect(() => {
+    showNextCard();
+  }, [showNextCard, store.trainee]);
+
+  const occupied = useMemo(() => new Set<string>(card ? piecesFromFen(card.entry.fen).map(p => p.square) : []), [card]);
+
+  // Any empty square can be picked; limiting clicks to the swept squares would give away
+  // where the piece could legally stand. scoreAnswer drops the others.
+  const onSquareClick = (square: Square) => {
+    if (!card || result || occupied.has(square)) return;
+    setPicked(prev => prev.includes(square) ? prev.filter(s => s !== square) : [...prev, square]);
+  };
+
+  const submit = () => {
+    if (!card) return;
+    const score = scoreAnswer(card, picked);
+    setResult(score);
+    setStore(prev => ({
+      ...prev,
+      progress: {
+        ...prev.progress,
+        [prev.trainee]: { ...(prev.progress[prev.trainee] ?? {}), [card.id]: scheduleReview(progress[card.id], score, Date.now()) },
+      },
+    }));
+  };
+
+  const addTrainee = () => {
+    const name = newTrainee.trim();
+    if (!name) return;
+    setStore(prev => ({ trainee: name, progress: { [name]: {}, ...prev.progress } }));
+    setNewTrainee('');
+  };
+
+  const squareStyles = useMemo(() => {
+    const styles: Record<string, React.CSSProperties> = {};
+    if (result) {
+      result.hits.forEach(square => { styles[square] = SQUARE_STYLES.hit; });
+      result.wrong.forEach(square => { styles[square] = SQUARE_STYLES.wrong; });
+      result.missed.forEach(square => { styles[square] = SQUARE_STYLES.missed; });
+    } else {
+      picked.forEach(square => { styles[square] = SQUARE_STYLES.picked; });
+    }
+    return styles;
+  }, [picked, result]);
+
+  const trainees = Object.keys({ [DEFAULT_TRAINEE]: {}, ...store.progress, [store.trainee]: {} });
+  const counts = cards ? countDue(cards, progress, Date.now()) : null;
+  const upcoming = cards && !card ? nextDueTime(cards, progress) : null;
+
+  const piece = card && pieceFromCode(card.entry.piece);
+
+  return (
+    <div className="trainer">
+      <h2>Where should the piece go?</h2>
+      <div className="trainer-settings">
+        <label>
+          Trainee
+          <select value={store.trainee} onChange={e => setStore(prev => ({ ...prev, trainee: e.target.value }))}>
+            {trainees.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <input type="text" placeholder="New trainee" value={newTrainee} onChange={e => setNewTrainee(e.target.value)} onKeyDown={e => e.key === 'Enter' && addTrainee()} />
+        <button onClick={addTrainee} disabled={!newTrainee.trim()}>Add</button>
+        {counts && <span className="trainer-counts">{counts.due} due · {counts.fresh} new · {cards!.length} cards</span>}
+      </div>
+
+      {loadError && <div className="practice-error">{loadError}</div>}
+      {!cards && !loadError && <div className="trainer-status">Loading the history...</div>}
+      {cards && cards.length === 0 && <div className="trainer-status">Sweep some positions first: the quiz is made from the evaluation history.</div>}
+      {cards && cards.length > 0 && !card && (
+        <div className="trainer-status">
+          Nothing is due.{upcoming !== null && ` Next review ${new Date(upcoming).toLocaleString()}.`}
+          <button onClick={showNextCard}>Check again</button>
+        </div>
+      )}
+
+      {card && (
+        <>
+          <div className="trainer-question">
+            Where does {SIDE_NAMES[piece!.color]} {CATEGORY_VERBS[card.category][0]} with the {PIECE_NAMES[piece!.type]}? {SIDE_NAMES[parseFen(card.entry.fen).turn]} to move.
+          </div>
+          <Chessboard
+            position={card.entry.fen}
+            onSquareClick={onSquareClick}
+            boardOrientation={piece!.color === 'w' ? 'white' : 'black'}
+            boardWidth={440}
+            arePiecesDraggable={false}
+            areArrowsAllowed={false}
+            customSquareStyles={squareStyles}
+          />
+          <div className="trainer-actions">
+            {result ? (
+              <>
+                <span className="trainer-result">
+                  {Math.round(result.score * 100)}% · {result.hits.length} right, {result.wrong.length} wrong, {result.missed.length} missed · next review in {formatInterval(store.progress[store.trainee]?.[card.id]?.due)}
+                </span>
+                <button onClick={showNextCard}>Next</button>
+              </>
+            ) : (
+              <>
+                <span className="trainer-hint">{picked.length} square{picked.length === 1 ? '' : 's'} picked where the {PIECE_NAMES[piece!.type]} {CATEGORY_VERBS[card.category][1]}</span>
+                <button onClick={submit}>Check</button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
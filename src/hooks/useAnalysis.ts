@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnalysisLine, toWhiteScore } from '../utils/analysis';
+import { parseUciLine } from '../utils/uci';
+
+export interface AnalysisState {
+  fen: string | null; // Position the lines belong to
+  lines: AnalysisLine[]; // Sorted by multipv
+  depth: number;
+  nodes: number;
+  nps: number;
+  running: boolean;
+}
+
+interface AnalysisEngine {
+  worker: Worker;
+  ready: boolean;
+  searching: boolean;
+  stopping: boolean; // "stop" sent, waiting for the bestmove that ends the old search
+  searchFen: string | null;
+  searchMultiPv: number;
+  lines: AnalysisLine[];
+  depth: number;
+  nodes: number;
+  nps: number;
+  dirty: boolean; // Info arrived since the last redraw
+}
+
+const IDLE_STATE: AnalysisState = { fen: null, lines: [], depth: 0, nodes: 0, nps: 0, running: false };
+const REDRAW_MS = 200; // Info lines arrive far faster than they can be read
+
+// Infinite multi-PV search of one position on an engine worker of its own, so the sweep's
+// pool is never blocked. A new position or line count first stops the running search; info
+// lines that arrive before its bestmove belong to the old position and are dropped. A null
+// fen pauses the analysis and releases the worker.
+export function useAnalysis(fen: string | null, multiPv: number): AnalysisState {
+  const [state, setState] = useState<AnalysisState>(IDLE_STATE);
+  const engineRef = useRef<AnalysisEngine | null>(null);
+  const desiredRef = useRef({ fen, multiPv });
+  desiredRef.current = { fen, multiPv };
+  const active = fen !== null;
+
+  const redraw = useCallback((engine: AnalysisEngine) => {
+    engine.dirty = false;
+    setState({
+      fen: engine.searchFen,
+      lines: [...engine.lines].sort((a, b) => a.multipv - b.multipv),
+      depth: engine.depth,
+      nodes: engine.nodes,
+      nps: engine.nps,
+      running: engine.searching,
+    });
+  }, []);
+
+  // Starts the search the caller wants, once the engine is ready and the old search has ended
+  const requestSearch = useCallback(() => {
+    const engine = engineRef.current;
+    if (!engine?.ready) return;
+    if (engine.searching) {
+      if (!engine.stopping) {
+        engine.stopping = true;
+        engine.worker.postMessage('stop');
+      }
+      return;
+    }
+    const { fen: targetFen, multiPv: lineCount } = desiredRef.current;
+    if (targetFen === null) return;
+    Object.assign(engine, { searching: true, searchFen: targetFen, searchMultiPv: lineCount, lines: [], depth: 0, nodes: 0, nps: 0 });
+    engine.worker.postMessage(`setoption name MultiPV value ${lineCount}`);
+    engine.worker.postMessage(`position fen ${targetFen}`);
+    engine.worker.postMessage('go infinite');
+    redraw(engine);
+  }, [redraw]);
+
+  useEffect(() => {
+    if (!active) return;
+    const workerPath = `${import.meta.env.BASE_URL}stockfish/stockfish-nnue-16-single.js`;
+    const engine: AnalysisEngine = {
+      worker: new Worker(workerPath, { type: 'module' }),
+      ready: false,
+      searching: false,
+      stopping: false,
+      searchFen: null,
+      searchMultiPv: 0,
+      lines: [],
+      depth: 0,
+      nodes: 0,
+      nps: 0,
+      dirty: false,
+    };
+    engineRef.current = engine;
+
+    engine.worker.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      const parsed = parseUciLine(event.data);
+      if (parsed.type === 'uciok') {
+        engine.worker.postMessage('isready');
+      } else if (parsed.type === 'readyok' && !engine.ready) {
+        engine.ready = true;
+        requestSearch();
+      } else if (parsed.type === 'info' && engine.searching && !engine.stopping && engine.searchFen) {
+        if (parsed.depth !== undefined) engine.depth = Math.max(engine.depth, parsed.depth);
+        if (parsed.nodes !== undefined) engine.nodes = parsed.nodes;
+        if (parsed.nps !== undefined) engine.nps = parsed.nps;
+        if (parsed.score && parsed.pv && parsed.pv.length > 0 && parsed.depth !== undefined) {
+          const multipv = parsed.multipv ?? 1;
+          const line: AnalysisLine = { multipv, depth: parsed.depth, score: toWhiteScore(parsed.score, engine.searchFen), pv: parsed.pv };
+          engine.lines = [...engine.lines.filter(l => l.multipv !== multipv), line];
+        }
+        engine.dirty = true;
+      } else if (parsed.type === 'bestmove') {
+        // Either the stop we asked for, or a position without legal moves that ends at once
+        const wasStopped = engine.stopping;
+        engine.searching = false;
+        engine.stopping = false;
+        redraw(engine);
+        const desired = desiredRef.current;
+        if (wasStopped || desired.fen !== engine.searchFen || desired.multiPv !== engine.searchMultiPv) requestSearch();
+      }
+    };
+    engine.worker.onerror = (error) => {
+      console.error('[useAnalysis] Worker error:', error);
+      engine.searching = false;
+      redraw(engine);
+    };
+    engine.worker.postMessage('uci');
+
+    const interval = setInterval(() => {
+      if (engine.dirty) redraw(engine);
+    }, REDRAW_MS);
+
+    return () => {
+      clearInterval(interval);
+      engine.worker.terminate();
+      engineRef.current = null;
+      setState(IDLE_STATE);
+    };
+  }, [active, redraw, requestSearch]);
+
+  useEffect(() => {
+    requestSearch();
+  }, [fen, multiPv, requestSearch]);
+
+  return state;
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ClockTimes, initialClockTimes, TimeControl } from '../utils/playSettings';
+
+const TICK_MS = 100;
+
+// Two-sided game clock. The times live in refs so the engine can read the exact remaining
+// time in the same render that switched the clock; a state tick only redraws the display.
+export function useChessClock(timeControl: TimeControl | null) {
+  const timesRef = useRef<ClockTimes>({ w: 0, b: 0 }); // As of the last switch
+  const runningRef = useRef<{ color: 'w' | 'b'; since: number } | null>(null);
+  const [running, setRunning] = useState<'w' | 'b' | null>(null);
+  const [flagged, setFlagged] = useState<'w' | 'b' | null>(null);
+  const [, setTick] = useState(0);
+
+  // Remaining time of both sides right now
+  const remaining = useCallback((): ClockTimes => {
+    const times = { ...timesRef.current };
+    const current = runningRef.current;
+    if (current) times[current.color] -= Date.now() - current.since;
+    return times;
+  }, []);
+
+  const run = useCallback((color: 'w' | 'b' | null) => {
+    runningRef.current = color ? { color, since: Date.now() } : null;
+    setRunning(color);
+  }, []);
+
+  const reset = useCallback(() => {
+    timesRef.current = timeControl ? initialClockTimes(timeControl) : { w: 0, b: 0 };
+    run(null);
+    setFlagged(null);
+  }, [timeControl, run]);
+
+  useEffect(reset, [reset]);
+
+  const start = useCallback((color: 'w' | 'b') => {
+    if (timeControl) run(color);
+  }, [timeControl, run]);
+
+  // The side that just moved stops its clock, gets the increment, and the other side's runs
+  const press = useCallback((mover: 'w' | 'b') => {
+    if (!timeControl || runningRef.current?.color !== mover) return;
+    const times = remaining();
+    times[mover] += timeControl.increment * 1000;
+    timesRef.current = times;
+    run(mover === 'w' ? 'b' : 'w');
+  }, [timeControl, remaining, run]);
+
+  const stop = useCallback(() => {
+    timesRef.current = remaining();
+    run(null);
+  }, [remaining, run]);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => {
+      if (remaining()[running] > 0) {
+        setTick(tick => tick + 1);
+        return;
+      }
+      timesRef.current = { ...remaining(), [running]: 0 };
+      run(null);
+      setFlagged(running);
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [running, remaining, run]);
+
+  return { remaining, running, flagged, start, press, stop, reset };
+}
@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  EngineConsumer,
+  getEngineProfileState,
+  selectEngineProfile,
+  subscribeEngineProfiles,
+} from '../utils/engineProfiles';
+
+// The profiles, and the one selected for this consumer
+export function useEngineProfiles(consumer: EngineConsumer) {
+  const state = useSyncExternalStore(subscribeEngineProfiles, getEngineProfileState);
+  const profile = state.profiles.find(p => p.id === state.selection[consumer]) ?? state.profiles[0];
+  const selectProfile = useCallback((id: string) => selectEngineProfile(consumer, id), [consumer]);
+  return { profiles: state.profiles, profile, selectProfile };
+}
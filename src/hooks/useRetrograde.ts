@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MAX_SOLVER_PIECES, SolverResult } from '../utils/retrograde';
+import type { RetrogradeRequest, RetrogradeResponse } from '../workers/retrograde.worker';
+import { EvaluationResult } from './useStockfish';
+
+export interface SolverStatus {
+  signature: string;
+  ply: number;
+}
+
+// Express a solver result the way the engine reports mates: moves, negative if the side to move gets mated
+export function retrogradeToEvaluation(result: SolverResult): EvaluationResult {
+  if (result.wdl === 'draw') return { source: 'retrograde', tbWdl: 0 };
+  const mate = result.wdl === 'win' ? (result.plies + 1) / 2 : -result.plies / 2;
+  return { source: 'retrograde', tbWdl: result.wdl === 'win' ? 2 : -2, mate };
+}
+
+function countPieces(fen: string): number {
+  return fen.split(' ')[0].replace(/[^a-zA-Z]/g, '').length;
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL('../workers/retrograde.worker.ts', import.meta.url), { type: 'module' });
+}
+
+export function useRetrograde() {
+  const [solvedTables, setSolvedTables] = useState<string[]>([]);
+  const [missingTables, setMissingTables] = useState<string[]>([]); // Probed, but not built yet
+  const [solving, setSolving] = useState<SolverStatus | null>(null);
+  const [building, setBuilding] = useState<string | null>(null);
+  const [buildError, setBuildError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const builderRef = useRef<Worker | null>(null); // Separate, so probes never queue behind a solve
+  const pendingProbesRef = useRef(new Map<number, (result: SolverResult | null) => void>());
+  const nextIdRef = useRef(0);
+
+  const addSolved = useCallback((signatures: string[]) => {
+    setSolvedTables(prev => [...prev, ...signatures.filter(signature => !prev.includes(signature))]);
+    setMissingTables(prev => prev.filter(signature => !signatures.includes(signature)));
+  }, []);
+
+  useEffect(() => {
+    const worker = createWorker();
+    workerRef.current = worker;
+    const pendingProbes = pendingProbesRef.current;
+
+    worker.onmessage = (event: MessageEvent<RetrogradeResponse>) => {
+      const message = event.data;
+      if (message.type === 'solved') {
+        addSolved([message.signature]);
+      } else if (message.type === 'cached') {
+        addSolved(message.signatures);
+      } else if (message.type === 'probed') {
+        const { missing } = message;
+        if (missing) setMissingTables(prev => prev.includes(missing) ? prev : [...prev, missing]);
+        pendingProbes.get(message.id)?.(message.result);
+        pendingProbes.delete(message.id);
+      }
+    };
+    // A crashed worker (e.g. out of memory) answers nothing more: its probes resolve now, and
+    // later ones go straight to the next source
+    worker.onerror = (error) => {
+      console.error("useRetrograde: Worker error event:", error);
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      pendingProbes.forEach(resolve => resolve(null));
+      pendingProbes.clear();
+    };
+    const request: RetrogradeRequest = { type: 'list' };
+    worker.postMessage(request);
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      builderRef.current?.terminate();
+      builderRef.current = null;
+      pendingProbes.forEach(resolve => resolve(null));
+      pendingProbes.clear();
+    };
+  }, [addSolved]);
+
+  // Resolves with null when the position has too much material, cannot be indexed or its
+  // table is not built yet; probes never wait for a table to be generated.
+  const probe = useCallback((fen: string): Promise<SolverResult | null> => {
+    const worker = workerRef.current;
+    if (!worker || countPieces(fen) > MAX_SOLVER_PIECES) return Promise.resolve(null);
+    return new Promise(resolve => {
+      const id = nextIdRef.current++;
+      pendingProbesRef.current.set(id, resolve);
+      const request: RetrogradeRequest = { type: 'probe', id, fen };
+      worker.postMessage(request);
+    });
+  }, []);
+
+  const stopBuilder = useCallback(() => {
+    builderRef.current?.terminate();
+    builderRef.current = null;
+    setBuilding(null);
+    setSolving(null);
+  }, []);
+
+  // Generates a table and the smaller ones it depends on; the result lands in IndexedDB,
+  // where the probing worker picks it up
+  const buildTable = useCallback((signature: string) => {
+    if (builderRef.current) return;
+    const builder = createWorker();
+    builderRef.current = builder;
+    setBuilding(signature);
+    setBuildError(null);
+
+    builder.onmessage = (event: MessageEvent<RetrogradeResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setSolving({ signature: message.signature, ply: message.ply });
+      } else if (message.type === 'solved') {
+        addSolved([message.signature]);
+      } else if (message.type === 'built' || message.type === 'buildFailed') {
+        if (message.type === 'buildFailed') setBuildError(`${message.signature}: ${message.error}`);
+        stopBuilder(); // Frees the solver's memory
+        const refresh: RetrogradeRequest = { type: 'refresh' };
+        workerRef.current?.postMessage(refresh);
+      }
+    };
+    builder.onerror = (error) => {
+      console.error('[useRetrograde] Builder error event:', error);
+      setBuildError(`${signature}: the solver stopped`);
+      stopBuilder();
+    };
+    const request: RetrogradeRequest = { type: 'build', signature };
+    builder.postMessage(request);
+  }, [addSolved, stopBuilder]);
+
+  // Tables finished before the cancel stay in IndexedDB
+  const cancelBuild = useCallback(() => {
+    if (!builderRef.current) return;
+    stopBuilder();
+    const refresh: RetrogradeRequest = { type: 'refresh' };
+    workerRef.current?.postMessage(refresh);
+  }, [stopBuilder]);
+
+  return { solvedTables, missingTables, solving, building, buildError, probe, buildTable, cancelBuild };
+}
@@ -1,192 +1,344 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { parseUciLine, ScoreBound, UciInfoMessage, UciOptionMessage } from '../utils/uci';
+import { goCommand, SearchLimit } from '../utils/engineProfiles';
+import type { WdlScore } from '../utils/syzygy';
 
 export interface EvaluationResult {
   score?: number; // Centipawns
   mate?: number;  // Mate in X moves
   depth?: number;
   bestMove?: string; // Add best move field
+  ponder?: string;
+  pv?: string[]; // Principal variation in UCI notation, starting with bestMove
+  bound?: ScoreBound; // 'exact' unless the search stopped on a fail-high/fail-low line
+  seldepth?: number;
+  nodes?: number;
+  nps?: number;
+  time?: number; // Search time in ms
+  hashfull?: number; // Permille
+  tbhits?: number;
+  wdl?: [number, number, number]; // Win/draw/loss permille, only when UCI_ShowWDL is on
+  source?: 'engine' | 'tablebase' | 'retrograde'; // Tablebase and retrograde results are proven, not an engine guess
+  tbWdl?: WdlScore; // Tablebase win/draw/loss, cursed wins and blessed losses are draws under the 50-move rule; -2 with an engine "mate 0"
+  dtz?: number; // Tablebase distance to zeroing move in plies
+  illegal?: string; // Set instead of a result when the swept position is not legal
+  refinement?: 'provisional' | 'refined'; // Progressive sweeps: still in doubt, or searched again deeper
 }
 
-// Helper (can be moved out if needed)
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-export function useStockfish() {
-  const [isReady, setIsReady] = useState<boolean>(false);
-  const workerRef = useRef<Worker | null>(null);
-  const isEngineBusy = useRef<boolean>(false); // Internal busy flag
-  const currentEvalRef = useRef<EvaluationResult | null>(null); // Store latest info during search
-  const currentEvalPromiseResolve = useRef<((value: EvaluationResult | null) => void) | null>(null);
-  const currentEvalPromiseReject = useRef<((reason?: any) => void) | null>(null);
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-
-  // Function to send raw commands (keep internal)
-  const sendCommand = useCallback((command: string) => {
-    if (workerRef.current && isReady) {
-       // console.log("[Internal] Sending command:", command);
-       workerRef.current.postMessage(command);
-    } else if (workerRef.current && !isReady && (command === 'uci' || command === 'isready')) { // Allow uci and isready during init
-        // console.log(`[Internal] Sending init command (${command})...`);
-        workerRef.current.postMessage(command);
-    } else {
-       console.error(`useStockfish internal: Worker not ready(ready=${isReady})/initialized. Cannot send command:`, command);
+// Merge an info line into the running evaluation. Only the first PV line counts, and a
+// bounded (fail-high/fail-low) score never replaces an exact one from a finished iteration.
+function applyInfo(current: EvaluationResult | null, info: UciInfoMessage): EvaluationResult | null {
+  if ((info.multipv ?? 1) !== 1) return current;
+  const next: EvaluationResult = { ...current };
+  if (info.nodes !== undefined) next.nodes = info.nodes;
+  if (info.nps !== undefined) next.nps = info.nps;
+  if (info.time !== undefined) next.time = info.time;
+  if (info.hashfull !== undefined) next.hashfull = info.hashfull;
+  if (info.tbhits !== undefined) next.tbhits = info.tbhits;
+  if (!info.score) return next;
+
+  const hasExactScore = current?.bound === 'exact';
+  if (info.score.bound !== 'exact' && hasExactScore) return next;
+
+  next.score = info.score.cp;
+  next.mate = info.score.mate;
+  next.bound = info.score.bound;
+  next.depth = info.depth;
+  next.seldepth = info.seldepth;
+  next.wdl = info.wdl;
+  if (info.pv && info.pv.length > 0) next.pv = info.pv;
+  return next;
+}
+
+// One worker per spare core by default, leaving a core for the UI thread
+export const DEFAULT_WORKER_COUNT = Math.max(1, Math.min(8, (navigator.hardwareConcurrency || 2) - 1));
+
+// 'high' jobs (interactive single evaluations) are served before any 'normal' job (sweeps, batches)
+export type EvaluationPriority = 'high' | 'normal';
+
+export interface EvaluateOptions {
+  signal?: AbortSignal;
+  priority?: EvaluationPriority;
+}
+
+// Depth and node limits have no time bound of their own; give up after this long
+const UNTIMED_SEARCH_TIMEOUT = 10 * 60 * 1000;
+// A crashed worker is replaced this often before its slot is given up
+const MAX_WORKER_RESTARTS = 3;
+
+interface EvaluationJob {
+  fen: string;
+  limit: SearchLimit;
+  priority: EvaluationPriority;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (value: EvaluationResult | null) => void;
+  reject: (reason?: unknown) => void;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortReason(signal?: AbortSignal): unknown {
+  return signal?.reason ?? new DOMException('Evaluation aborted', 'AbortError');
+}
+
+// State of a single Stockfish worker in the pool
+interface EngineSlot {
+  worker: Worker;
+  ready: boolean;
+  job: EvaluationJob | null;
+  stopping: boolean; // 'stop' was sent, the next bestmove belongs to an abandoned job
+  current: EvaluationResult | null; // Latest info during search
+  timeout: ReturnType<typeof setTimeout> | null;
+  appliedOptions: Record<string, string>; // Option values sent with setoption so far
+  restarts: number;
+}
+
+export interface UseStockfishOptions {
+  workerCount?: number;
+  engineOptions?: Record<string, string>; // UCI option values, applied before the next search
+}
+
+export function useStockfish({ workerCount = 1, engineOptions }: UseStockfishOptions = {}) {
+  const [readyCount, setReadyCount] = useState<number>(0);
+  const [declaredOptions, setDeclaredOptions] = useState<UciOptionMessage[]>([]); // From the engine's reply to "uci"
+  const slotsRef = useRef<EngineSlot[]>([]);
+  const pendingJobsRef = useRef<EvaluationJob[]>([]); // Jobs waiting for a free worker, by priority then FIFO
+  const engineOptionsRef = useRef<Record<string, string>>({});
+  engineOptionsRef.current = engineOptions ?? {};
+  const declaredOptionsRef = useRef<UciOptionMessage[]>([]);
+
+  // Detach the abort listener once a job is resolved, rejected or removed
+  const detachAbortListener = useCallback((job: EvaluationJob) => {
+    if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+    job.onAbort = undefined;
+  }, []);
+
+  // Give up on the search a worker is running: the engine is told to stop and
+  // the bestmove it sends back is dropped
+  const stopSlot = useCallback((slot: EngineSlot) => {
+    if (slot.timeout) clearTimeout(slot.timeout);
+    slot.job = null;
+    slot.timeout = null;
+    slot.stopping = true;
+    slot.worker.postMessage('stop');
+  }, []);
+
+  // Options can only change between searches, so each worker catches up before its next job.
+  // An option dropped from the settings goes back to its declared default.
+  const applyOptions = useCallback((slot: EngineSlot) => {
+    const wanted = engineOptionsRef.current;
+    const changes: [string, string][] = Object.entries(wanted).filter(([name, value]) => slot.appliedOptions[name] !== value);
+    for (const name of Object.keys(slot.appliedOptions)) {
+      if (name in wanted) continue;
+      const declared = declaredOptionsRef.current.find(option => option.name === name);
+      if (declared?.default !== undefined) changes.push([name, declared.default]);
     }
-  }, [isReady]); // isReady dependency is important here
+    changes.forEach(([name, value]) => slot.worker.postMessage(`setoption name ${name} value ${value}`));
+    slot.appliedOptions = { ...wanted };
+  }, []);
+
+  // Hand queued jobs to every idle worker
+  const dispatch = useCallback(() => {
+    for (const slot of slotsRef.current) {
+      if (!slot.ready || slot.job || slot.stopping) continue;
+      const job = pendingJobsRef.current.shift();
+      if (!job) return;
 
-  // Initialize worker
+      slot.job = job;
+      slot.current = null;
+      const timeoutDuration = job.limit.kind === 'movetime' ? job.limit.value + 5000 : UNTIMED_SEARCH_TIMEOUT;
+      slot.timeout = setTimeout(() => {
+        console.error(`Evaluation timeout (${timeoutDuration}ms) for FEN: ${job.fen}`);
+        detachAbortListener(job);
+        job.reject(new Error(`Evaluation timed out after ${timeoutDuration}ms`));
+        stopSlot(slot); // Try to stop the engine
+      }, timeoutDuration);
+
+      applyOptions(slot);
+      slot.worker.postMessage(`position fen ${job.fen}`);
+      // No artificial wait needed here, engine should process sequentially
+      slot.worker.postMessage(goCommand(job.limit));
+    }
+  }, [detachAbortListener, stopSlot, applyOptions]);
+
+  // Initialize workers
   useEffect(() => {
-    // console.log("Initializing worker...");
-    // console.log("BASE_URL for worker:", import.meta.env.BASE_URL);
     const workerPath = `${import.meta.env.BASE_URL}stockfish/stockfish-nnue-16-single.js`;
-    // console.log("Constructed worker path:", workerPath);
-    const worker = new Worker(workerPath, { type: 'module' }); // Ensure type: module if needed
-    workerRef.current = worker;
-    isEngineBusy.current = false;
-    currentEvalRef.current = null;
-    currentEvalPromiseResolve.current = null;
-    currentEvalPromiseReject.current = null;
-    if(timeoutRef.current) clearTimeout(timeoutRef.current);
-    setIsReady(false); // Explicitly set not ready on init/re-init
-
-    worker.onmessage = (event) => {
-      const message = event.data;
-
-      if (typeof message === 'string') {
-        // console.log("[Worker msg]:", message); // Optional debug log
+    setReadyCount(0); // Explicitly set not ready on init/re-init
+
+    const slots: EngineSlot[] = Array.from({ length: Math.max(1, workerCount) }, () => ({
+      worker: new Worker(workerPath, { type: 'module' }), // Ensure type: module if needed
+      ready: false,
+      job: null,
+      stopping: false,
+      current: null,
+      timeout: null,
+      appliedOptions: {},
+      restarts: 0,
+    }));
+    slotsRef.current = slots;
+    const declarations: UciOptionMessage[] = [];
+    let optionsDeclared = false; // A restarted first worker lists its options again
+
+    const startWorker = (slot: EngineSlot, index: number) => {
+      slot.worker.onmessage = (event) => {
+        const message = event.data;
+
+        if (typeof message !== 'string') {
+          console.warn("useStockfish: Received unexpected object message:", message);
+          return;
+        }
+        const parsed = parseUciLine(message);
 
         // Parse info lines
-        if (message.startsWith('info')) {
-          const depthMatch = message.match(/depth (\d+)/);
-          const currentDepth = depthMatch ? parseInt(depthMatch[1]) : undefined;
-          if (message.includes('score cp')) {
-            const scoreMatch = message.match(/score cp (-?\d+)/);
-            if (scoreMatch) currentEvalRef.current = { ...currentEvalRef.current, score: parseInt(scoreMatch[1]), mate: undefined, depth: currentDepth };
-          } else if (message.includes('score mate')) {
-            const mateMatch = message.match(/score mate (-?\d+)/);
-            if (mateMatch) currentEvalRef.current = { ...currentEvalRef.current, mate: parseInt(mateMatch[1]), score: undefined, depth: currentDepth };
-          }
+        if (parsed.type === 'info') {
+          slot.current = applyInfo(slot.current, parsed);
         }
         // Handle completion
-        else if (message.startsWith('bestmove')) {
-          if(timeoutRef.current) clearTimeout(timeoutRef.current);
-          const parts = message.split(' ');
-          const bestMove = parts[1] && parts[1] !== '(none)' ? parts[1] : undefined;
-          if (currentEvalRef.current) {
-             currentEvalRef.current.bestMove = bestMove;
-          } else {
-             currentEvalRef.current = { bestMove: bestMove };
+        else if (parsed.type === 'bestmove') {
+          if (slot.timeout) clearTimeout(slot.timeout);
+          slot.timeout = null;
+          const job = slot.job;
+          const bestMove = parsed.move ?? undefined;
+          const result: EvaluationResult = { ...slot.current, bestMove, ponder: parsed.ponder, source: 'engine' };
+          // Keep the PV consistent with the move actually played
+          if (bestMove && result.pv?.[0] !== bestMove) {
+            result.pv = [bestMove];
           }
-
-          if (currentEvalPromiseResolve.current) {
-             // console.log("useStockfish: Bestmove received, resolving promise with:", currentEvalRef.current);
-             currentEvalPromiseResolve.current(currentEvalRef.current);
+          // "mate 0" means the side to move is checkmated, which a sign can't carry through
+          // toWhitePerspective; the loss is recorded as the solver does
+          if (result.mate === 0) result.tbWdl = -2;
+          // Clean up for next evaluation
+          slot.job = null;
+          slot.current = null;
+          if (slot.stopping) {
+            slot.stopping = false; // Result of an abandoned search, drop it
+          } else if (job) {
+            detachAbortListener(job);
+            job.resolve(result);
           } else {
-              console.warn("useStockfish: Received bestmove but no promise was pending.");
+            console.warn("useStockfish: Received bestmove but no promise was pending.");
           }
-           // Clean up for next evaluation
-           isEngineBusy.current = false;
-           currentEvalPromiseResolve.current = null;
-           currentEvalPromiseReject.current = null;
-           currentEvalRef.current = null;
+          dispatch();
+        }
+        // Every worker runs the same engine, the first one reports its options
+        else if (parsed.type === 'option' && index === 0 && !optionsDeclared) {
+          declarations.push(parsed);
         }
         // Handle UCI confirmation
-        else if (message === 'uciok') {
-          // console.log("useStockfish: UCI OK received. Sending isready.");
-           sendCommand('isready'); // Send isready after uciok
-         }
-         else if (message === 'readyok') {
-          // console.log("useStockfish: Engine readyok received.");
-           if (!isReady) {
-                // console.log("Setting engine to ready state.");
-                setIsReady(true); // Set ready *only* after readyok
-           }
-           isEngineBusy.current = false; // Ensure not busy if we were waiting for readyok
-         }
-
-      } else if (typeof message === 'object' && message !== null) {
-         console.warn("useStockfish: Received unexpected object message:", message);
-      }
+        else if (parsed.type === 'uciok') {
+          if (index === 0 && !optionsDeclared) {
+            optionsDeclared = true;
+            declaredOptionsRef.current = declarations;
+            setDeclaredOptions(declarations);
+          }
+          slot.worker.postMessage('isready'); // Send isready after uciok
+        }
+        else if (parsed.type === 'readyok' && !slot.ready) {
+          slot.ready = true; // Set ready *only* after readyok
+          setReadyCount(count => count + 1);
+          dispatch();
+        }
+      };
+
+      slot.worker.onerror = (error) => {
+        console.error("useStockfish: Worker error event:", error);
+        if (slot.timeout) clearTimeout(slot.timeout);
+        if (slot.job) {
+          detachAbortListener(slot.job);
+          slot.job.reject(error);
+        }
+        slot.job = null;
+        slot.timeout = null;
+        slot.stopping = false;
+        slot.current = null;
+        if (slot.ready) setReadyCount(count => count - 1);
+        slot.ready = false;
+
+        // A fresh engine takes the slot over; it counts as ready again after its readyok
+        slot.worker.terminate();
+        if (slot.restarts >= MAX_WORKER_RESTARTS) {
+          console.error(`useStockfish: Worker ${index} crashed ${slot.restarts + 1} times, leaving it out of the pool`);
+          return;
+        }
+        slot.restarts++;
+        slot.worker = new Worker(workerPath, { type: 'module' });
+        slot.appliedOptions = {};
+        startWorker(slot, index);
+      };
+
+      // Initial UCI command to kick things off
+      slot.worker.postMessage('uci');
     };
+    slots.forEach(startWorker);
 
-     worker.onerror = (error) => {
-       console.error("useStockfish: Worker error event:", error);
-       if (currentEvalPromiseReject.current) {
-           currentEvalPromiseReject.current(error);
-       }
-       if(timeoutRef.current) clearTimeout(timeoutRef.current);
-       setIsReady(false);
-       isEngineBusy.current = false;
-       currentEvalPromiseResolve.current = null;
-       currentEvalPromiseReject.current = null;
-     };
-
-     // Initial UCI command to kick things off
-     sendCommand('uci'); // Send UCI right away
-
-     return () => {
-       // console.log("useStockfish: Terminating worker.");
-       worker.terminate();
-       if(timeoutRef.current) clearTimeout(timeoutRef.current);
-       workerRef.current = null;
-       setIsReady(false);
-       isEngineBusy.current = false;
-     };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Keep deps empty for single worker instance lifecycle
-
-
-  // The new function to evaluate a position
-  const evaluateFen = useCallback(async (fen: string, moveTime: number): Promise<EvaluationResult | null> => {
-      if (!isReady) {
-          // Wait briefly for readiness if not ready yet
-          // console.log("Evaluate called but engine not ready, waiting briefly...");
-          let waitLoops = 0;
-          while(!isReady) {
-              if(waitLoops++ > 50) throw new Error("Engine did not become ready in time."); // ~5s timeout
-              await wait(100);
-          }
-          // console.log("Engine now ready, proceeding with evaluation.");
-      }
-      if (isEngineBusy.current) {
-          // console.warn("Engine is busy, evaluation request queued/delayed (simple wait)");
-          let waitLoops = 0;
-           while (isEngineBusy.current) {
-               if(waitLoops++ > 200) throw new Error("Timeout waiting for engine to become free.");
-               await wait(100);
-           }
-           // console.log("Engine became free, proceeding with evaluation.");
+    return () => {
+      slots.forEach(slot => {
+        slot.worker.terminate();
+        if (slot.timeout) clearTimeout(slot.timeout);
+        if (slot.job) {
+          detachAbortListener(slot.job);
+          slot.job.reject(new Error('Engine worker was terminated'));
+        }
+      });
+      slotsRef.current = [];
+      setReadyCount(0);
+    };
+  }, [workerCount, dispatch, detachAbortListener]);
+
+  // Evaluate a position on the first free worker; jobs queue up while all workers are busy.
+  // A plain number is a movetime in ms. Aborting the signal removes a queued job, or stops
+  // the engine if the job is already running.
+  const evaluateFen = useCallback((fen: string, searchLimit: SearchLimit | number, { signal, priority = 'normal' }: EvaluateOptions = {}): Promise<EvaluationResult | null> => {
+    const limit: SearchLimit = typeof searchLimit === 'number' ? { kind: 'movetime', value: searchLimit } : searchLimit;
+    return new Promise<EvaluationResult | null>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
       }
+      const job: EvaluationJob = { fen, limit, priority, signal, resolve, reject };
 
-      return new Promise<EvaluationResult | null>((resolve, reject) => {
-          // console.log(`Starting evaluation promise for FEN: ${fen} (movetime ${moveTime})`);
-          isEngineBusy.current = true;
-          currentEvalRef.current = null;
-          currentEvalPromiseResolve.current = resolve;
-          currentEvalPromiseReject.current = reject;
-
-          const timeoutDuration = moveTime + 5000;
-          if(timeoutRef.current) clearTimeout(timeoutRef.current);
-          timeoutRef.current = setTimeout(() => {
-              console.error(`Evaluation timeout (${timeoutDuration}ms) for FEN: ${fen}`);
-              if (currentEvalPromiseReject.current) {
-                 currentEvalPromiseReject.current(new Error(`Evaluation timed out after ${timeoutDuration}ms`));
-              }
-               isEngineBusy.current = false;
-               currentEvalPromiseResolve.current = null;
-               currentEvalPromiseReject.current = null;
-               currentEvalRef.current = null;
-               sendCommand('stop'); // Try to stop the engine
-          }, timeoutDuration);
-
-          // Send commands
-          sendCommand(`position fen ${fen}`);
-          // No artificial wait needed here, engine should process sequentially
-          sendCommand(`go movetime ${moveTime}`);
-      });
+      if (signal) {
+        job.onAbort = () => {
+          detachAbortListener(job);
+          const queueIndex = pendingJobsRef.current.indexOf(job);
+          if (queueIndex !== -1) {
+            pendingJobsRef.current.splice(queueIndex, 1);
+          } else {
+            const slot = slotsRef.current.find(s => s.job === job);
+            if (slot) stopSlot(slot);
+          }
+          reject(abortReason(signal));
+        };
+        signal.addEventListener('abort', job.onAbort);
+      }
 
-  }, [isReady, sendCommand]); // Depends on isReady state and sendCommand identity
+      // High priority jobs go behind other high priority jobs but ahead of every normal one
+      const queue = pendingJobsRef.current;
+      const insertAt = priority === 'high' ? queue.findIndex(queued => queued.priority !== 'high') : -1;
+      if (insertAt === -1) queue.push(job);
+      else queue.splice(insertAt, 0, job);
+      dispatch();
+    });
+  }, [dispatch, detachAbortListener, stopSlot]);
 
+  // Drop every queued job and stop every running search
+  const cancelAll = useCallback(() => {
+    const cancelled = new DOMException('Evaluation cancelled', 'AbortError');
+    pendingJobsRef.current.splice(0).forEach(job => {
+      detachAbortListener(job);
+      job.reject(cancelled);
+    });
+    for (const slot of slotsRef.current) {
+      if (!slot.job) continue;
+      detachAbortListener(slot.job);
+      slot.job.reject(cancelled);
+      stopSlot(slot);
+    }
+  }, [detachAbortListener, stopSlot]);
 
-  // Only expose readiness state and the evaluation function
-  return { isReady, evaluateFen };
-}
\ No newline at end of file
+  return { isReady: readyCount > 0, readyWorkers: readyCount, declaredOptions, evaluateFen, cancelAll };
+}
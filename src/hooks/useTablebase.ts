@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { TablebaseProbe } from '../utils/syzygy';
+import type { TablebaseRequest, TablebaseResponse } from '../workers/tablebase.worker';
+import { EvaluationResult } from './useStockfish';
+
+// Turn a tablebase probe into the same shape the engine produces, so the overlay and
+// history treat proven squares like any other result.
+export function tablebaseToEvaluation(probe: TablebaseProbe): EvaluationResult {
+  return { source: 'tablebase', tbWdl: probe.wdl, dtz: probe.dtz };
+}
+
+function countPieces(fen: string): number {
+  return fen.split(' ')[0].replace(/[^a-zA-Z]/g, '').length;
+}
+
+export function useTablebase() {
+  const [tables, setTables] = useState<string[]>([]);
+  const [maxPieces, setMaxPieces] = useState<number>(0);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingProbesRef = useRef(new Map<number, (result: TablebaseProbe | null) => void>());
+  const nextIdRef = useRef(0);
+  const maxPiecesRef = useRef(0); // Read inside probe() without re-creating it
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/tablebase.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const pendingProbes = pendingProbesRef.current;
+
+    worker.onmessage = (event: MessageEvent<TablebaseResponse>) => {
+      const message = event.data;
+      if (message.type === 'loaded') {
+        setTables(message.tables);
+        setMaxPieces(message.maxPieces);
+        maxPiecesRef.current = message.maxPieces;
+      } else if (message.type === 'probed') {
+        pendingProbes.get(message.id)?.(message.result);
+        pendingProbes.delete(message.id);
+      }
+    };
+    // A crashed worker answers nothing more: its probes resolve now, and the tables it held
+    // are gone until the page is reloaded
+    worker.onerror = (error) => {
+      console.error("useTablebase: Worker error event:", error);
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      pendingProbes.forEach(resolve => resolve(null));
+      pendingProbes.clear();
+      setTables([]);
+      setMaxPieces(0);
+      maxPiecesRef.current = 0;
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pendingProbes.forEach(resolve => resolve(null));
+      pendingProbes.clear();
+    };
+  }, []);
+
+  // Hand Syzygy files (.rtbw/.rtbz) picked by the user to the worker
+  const loadFiles = useCallback((files: FileList | File[]) => {
+    const request: TablebaseRequest = { type: 'load', files: Array.from(files) };
+    workerRef.current?.postMessage(request);
+  }, []);
+
+  // Resolves with null when the position is out of tablebase range or a table is missing
+  const probe = useCallback((fen: string): Promise<TablebaseProbe | null> => {
+    const worker = workerRef.current;
+    if (!worker || countPieces(fen) > maxPiecesRef.current) return Promise.resolve(null);
+    return new Promise(resolve => {
+      const id = nextIdRef.current++;
+      pendingProbesRef.current.set(id, resolve);
+      const request: TablebaseRequest = { type: 'probe', id, fen };
+      worker.postMessage(request);
+    });
+  }, []);
+
+  return { tables, maxPieces, loadFiles, probe };
+}
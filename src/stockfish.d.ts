@@ -4,4 +4,9 @@ declare module 'stockfish.js' {
     postMessage: (message: string) => void;
   };
   export = Stockfish;
-} 
\ No newline at end of file
+}
+
+// Global constructor installed by the stockfish.js <script> tag in index.html
+interface Window {
+  STOCKFISH?: () => Worker;
+}
@@ -0,0 +1,72 @@
+// Live analysis of the edited position: settings, and turning the engine's lines into what
+// the panel and the board arrows show. Scores are converted to White's perspective like
+// everything else on the sweep page.
+import { Square } from 'chess.js';
+import { parseFen } from './fen';
+import type { UciScore } from './uci';
+
+export interface AnalysisSettings {
+  enabled: boolean;
+  multiPv: number; // Lines searched and shown
+}
+
+export interface AnalysisLine {
+  multipv: number; // 1 is the best line
+  depth: number;
+  score: UciScore; // White's perspective
+  pv: string[];    // UCI moves
+}
+
+// Same shape as react-chessboard's customArrows entries: from, to and colour
+export type BoardArrow = [Square, Square, string?];
+
+export const MAX_MULTI_PV = 5;
+
+const STORAGE_KEY = 'analysisSettings';
+const DEFAULT_SETTINGS: AnalysisSettings = { enabled: false, multiPv: 3 };
+// Arrow colours for the best line and the alternatives
+const ARROW_COLORS = ['rgba(21, 170, 191, 0.9)', 'rgba(21, 170, 191, 0.55)', 'rgba(21, 170, 191, 0.35)'];
+
+export function loadAnalysisSettings(): AnalysisSettings {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.enabled === 'boolean' && stored.multiPv >= 1 && stored.multiPv <= MAX_MULTI_PV) return stored;
+  } catch {
+    console.error('[analysis] Failed to parse stored settings');
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function saveAnalysisSettings(settings: AnalysisSettings): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Engine scores are for the side to move
+export function toWhiteScore(score: UciScore, fen: string): UciScore {
+  if (parseFen(fen).turn === 'w') return score;
+  return {
+    bound: score.bound === 'lowerbound' ? 'upperbound' : score.bound === 'upperbound' ? 'lowerbound' : 'exact',
+    cp: score.cp !== undefined ? -score.cp : undefined,
+    mate: score.mate !== undefined ? -score.mate : undefined,
+  };
+}
+
+export function formatScore(score: UciScore): string {
+  if (score.mate !== undefined) return `${score.mate < 0 ? '-' : '+'}M${Math.abs(score.mate)}`;
+  const pawns = (score.cp ?? 0) / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+// White's share of the eval bar, 0..1: the usual winning-chances curve, full for a mate
+export function evalBarFraction(score: UciScore | undefined): number {
+  if (!score) return 0.5;
+  if (score.mate !== undefined) return score.mate > 0 ? 1 : score.mate < 0 ? 0 : 0.5;
+  return 1 / (1 + Math.exp(-0.00368208 * (score.cp ?? 0)));
+}
+
+// First move of each line, best line drawn strongest
+export function analysisArrows(lines: AnalysisLine[]): BoardArrow[] {
+  return lines
+    .filter(line => line.pv.length > 0)
+    .map(line => [line.pv[0].slice(0, 2), line.pv[0].slice(2, 4), ARROW_COLORS[Math.min(line.multipv - 1, ARROW_COLORS.length - 1)]] as BoardArrow);
+}
@@ -0,0 +1,162 @@
+// Batch evaluation on the engine test page: a pasted or uploaded list of FENs or EPD
+// records is read into positions, and the results go out again as CSV or as EPD with the
+// ce, bm and acd opcodes. Operations of the input other than the engine's own are kept, so
+// re-scoring a file of study positions keeps their ids and comments.
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { formatFen, isWellFormedFen, parseFen } from './fen';
+import { centipawnsForSideToMove } from './historyTransfer';
+import { pvToSan } from './notation';
+import { validateFen } from './positionValidation';
+
+export interface BatchPosition {
+  line: number; // Line of the input, for error messages and the default order
+  fen: string;
+  operations: [string, string][]; // EPD opcode and raw operand, e.g. ["id", "\"study 12\""]
+}
+
+export interface BatchRow {
+  position: BatchPosition;
+  status: 'pending' | 'done' | 'failed' | 'cancelled'; // Cancelled rows are left out of the exports
+  evaluation: EvaluationResult | null; // White's perspective
+}
+
+export type BatchSortKey = 'line' | 'score' | 'depth' | 'bestMove';
+
+// Opcodes the export writes from the new result; the input's values are dropped
+const ENGINE_OPCODES = new Set(['ce', 'dm', 'acd', 'bm', 'pv', 'hmvc', 'fmvn']);
+
+// "op operand; op operand;" with semicolons inside quoted operands left alone
+function parseOperations(text: string): [string, string][] {
+  const operations: [string, string][] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text + ';') {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      const match = /^(\S+)\s*(.*)$/.exec(current.trim());
+      if (match) operations.push([match[1], match[2].trim()]);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return operations;
+}
+
+// One position per line, as a FEN or an EPD record; blank lines and "#" comments are skipped
+export function parseBatchInput(text: string): { positions: BatchPosition[]; errors: string[] } {
+  const positions: BatchPosition[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const match = /^(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s*(.*)$/.exec(trimmed);
+    if (!match) {
+      errors.push(`Line ${line}: expected a FEN or an EPD record`);
+      return;
+    }
+    const [, board, turn, castling, enPassant, rest] = match;
+    const counters = /^(\d+)\s+(\d+)\s*(.*)$/.exec(rest); // A FEN; EPD has no move counters
+    const operations = parseOperations(counters ? counters[3] : rest);
+    const operand = (opcode: string) => operations.find(([op]) => op === opcode)?.[1];
+    const halfmove = counters?.[1] ?? operand('hmvc') ?? '0';
+    const fullmove = counters?.[2] ?? operand('fmvn') ?? '1';
+    const candidate = `${board} ${turn} ${castling} ${enPassant} ${halfmove} ${fullmove}`;
+    if (!isWellFormedFen(candidate)) {
+      errors.push(`Line ${line}: not a valid position`);
+      return;
+    }
+    const fen = formatFen(parseFen(candidate));
+    const problems = validateFen(fen);
+    if (problems.length > 0) {
+      errors.push(`Line ${line}: ${problems[0].message}`);
+      return;
+    }
+    positions.push({ line, fen, operations });
+  });
+  return { positions, errors };
+}
+
+export function positionId(position: BatchPosition): string {
+  const id = position.operations.find(([op]) => op === 'id')?.[1] ?? '';
+  return id.replace(/^"(.*)"$/, '$1');
+}
+
+export function bestMoveSan(row: BatchRow): string | null {
+  const { evaluation } = row;
+  return pvToSan(row.position.fen, evaluation?.pv ?? (evaluation?.bestMove ? [evaluation.bestMove] : undefined))[0] ?? null;
+}
+
+// Mates beyond every centipawn score, so the order matches the strength of the result
+function scoreValue(row: BatchRow): number | null {
+  return row.evaluation ? centipawnsForSideToMove(row.evaluation, 'w') : null;
+}
+
+// Rows without the value sort last in either direction
+export function sortBatchRows(rows: BatchRow[], key: BatchSortKey, descending: boolean): BatchRow[] {
+  const value = (row: BatchRow): number | string | null => {
+    if (key === 'line') return row.position.line;
+    if (key === 'score') return scoreValue(row);
+    if (key === 'depth') return row.evaluation?.depth ?? null;
+    return bestMoveSan(row);
+  };
+  return [...rows].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    const order = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return descending ? -order : order;
+  });
+}
+
+const csvField = (value: string | number | undefined | null) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const exported = (rows: BatchRow[]) => rows.filter(row => row.status !== 'pending' && row.status !== 'cancelled');
+
+// Scores and mates from White's point of view, like the table
+export function batchToCsv(rows: BatchRow[]): string {
+  const header = ['line', 'id', 'fen', 'score_cp_white', 'mate_white', 'depth', 'best_move', 'pv'];
+  const lines = exported(rows).map(row => {
+    const { position, evaluation } = row;
+    return [
+      position.line,
+      positionId(position),
+      position.fen,
+      evaluation?.score,
+      evaluation?.mate,
+      evaluation?.depth,
+      bestMoveSan(row),
+      pvToSan(position.fen, evaluation?.pv).join(' '),
+    ].map(csvField).join(',');
+  });
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+// ce is for the side to move, as EPD defines it; positions that failed keep their other operations
+export function batchToEpd(rows: BatchRow[]): string {
+  return exported(rows).map(row => {
+    const { position, evaluation } = row;
+    const fields = parseFen(position.fen);
+    const operations: string[] = [];
+    if (evaluation) {
+      const ce = centipawnsForSideToMove(evaluation, fields.turn);
+      if (ce !== null) operations.push(`ce ${ce}`);
+      const mate = evaluation.mate !== undefined ? evaluation.mate * (fields.turn === 'w' ? 1 : -1) : 0;
+      if (mate > 0) operations.push(`dm ${mate}`);
+      if (evaluation.depth !== undefined) operations.push(`acd ${evaluation.depth}`);
+      const bestMove = bestMoveSan(row);
+      if (bestMove) operations.push(`bm ${bestMove}`);
+      const pv = pvToSan(position.fen, evaluation.pv);
+      if (pv.length > 0) operations.push(`pv ${pv.join(' ')}`);
+    }
+    operations.push(`hmvc ${fields.halfmove}`, `fmvn ${fields.fullmove}`);
+    position.operations
+      .filter(([op]) => !ENGINE_OPCODES.has(op))
+      .forEach(([op, operand]) => operations.push(operand ? `${op} ${operand}` : op));
+    return `${fields.board} ${fields.turn} ${fields.castling} ${fields.enPassant} ${operations.join('; ')};`;
+  }).join('\n') + '\n';
+}
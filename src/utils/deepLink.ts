@@ -0,0 +1,135 @@
+// Query string of a shareable link to the sweep page: the position, the sweep settings and,
+// once a sweep has finished, its results, so opening the link shows the overlay without
+// running the engine again.
+//
+//   ?fen=8/8/8/8/8/8/8/4K2R_b_-_-_0_1&piece=k&both=1&swept=k&eval=...&eval2=...
+//
+// The FEN uses "_" for spaces to stay readable. Each evaluation map is one token per square,
+// in ALL_SQUARES order and separated by ".": empty for a square that was not evaluated, "x"
+// for a failed evaluation, "i" for an illegal placement, otherwise an optional source ("t"
+// tablebase, "r" solver) followed by M<mate> S<score> W<wdl> Z<dtz> D<depth> B<best move>.
+import { Square } from 'chess.js';
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { formatFen, isWellFormedFen, parseFen } from './fen';
+import { validateFen } from './positionValidation';
+import { ALL_SQUARES, PieceCode, placementFen } from './sweep';
+
+type EvaluationMap = Record<string, EvaluationResult | null>;
+
+export interface DeepLinkResults {
+  piece: PieceCode;
+  evaluations: EvaluationMap;
+  oppositeTurnEvaluations: EvaluationMap | null; // Both-sides sweeps only
+}
+
+export interface DeepLink {
+  fen: string;
+  sweepPiece: PieceCode | null; // null sweeps the missing king
+  sweepBothSides: boolean;
+  results: DeepLinkResults | null;
+}
+
+const PIECE_CODES = new Set<string>(['K', 'Q', 'R', 'B', 'N', 'P', 'k', 'q', 'r', 'b', 'n', 'p']);
+const SOURCE_CODES: Record<string, EvaluationResult['source']> = { t: 'tablebase', r: 'retrograde' };
+const TOKEN_PATTERN = /^([tr]?)(?:M(-?\d+))?(?:S(-?\d+))?(?:W(-?[0-2]))?(?:Z(-?\d+))?(?:D(\d+))?(?:B([a-h][1-8][a-h][1-8][qrbn]?))?$/;
+
+const isPieceCode = (value: string | null): value is PieceCode => value !== null && PIECE_CODES.has(value);
+
+// --- Evaluation maps ---
+
+function encodeEvaluation(evaluation: EvaluationResult | null | undefined): string {
+  if (evaluation === undefined) return '';
+  if (evaluation === null) return 'x';
+  if (evaluation.illegal) return 'i';
+  let token = evaluation.source === 'tablebase' ? 't' : evaluation.source === 'retrograde' ? 'r' : '';
+  if (evaluation.mate !== undefined) token += `M${evaluation.mate}`;
+  if (evaluation.score !== undefined) token += `S${Math.round(evaluation.score)}`;
+  if (evaluation.tbWdl !== undefined) token += `W${evaluation.tbWdl}`;
+  if (evaluation.dtz !== undefined) token += `Z${evaluation.dtz}`;
+  if (evaluation.depth !== undefined) token += `D${evaluation.depth}`;
+  if (evaluation.bestMove) token += `B${evaluation.bestMove}`;
+  return token;
+}
+
+function encodeEvaluationMap(evaluations: EvaluationMap): string {
+  return ALL_SQUARES.map(square => encodeEvaluation(evaluations[square])).join('.').replace(/\.+$/, '');
+}
+
+// Illegal squares only carry a flag; the reasons are worked out again from the position
+function decodeEvaluationMap(text: string, fen: string, piece: PieceCode, turn: 'w' | 'b'): EvaluationMap | null {
+  const tokens = text.split('.');
+  if (tokens.length > ALL_SQUARES.length) return null;
+  const evaluations: EvaluationMap = {};
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const square: Square = ALL_SQUARES[i];
+    if (token === '') continue;
+    if (token === 'x') {
+      evaluations[square] = null;
+      continue;
+    }
+    if (token === 'i') {
+      const problems = validateFen(placementFen(fen, piece, square, turn));
+      evaluations[square] = { illegal: problems.map(problem => problem.message).join('; ') || 'Illegal position' };
+      continue;
+    }
+    const match = TOKEN_PATTERN.exec(token);
+    if (!match) return null;
+    const [, source, mate, score, wdl, dtz, depth, bestMove] = match;
+    const evaluation: EvaluationResult = { source: SOURCE_CODES[source] ?? 'engine' };
+    if (mate !== undefined) evaluation.mate = parseInt(mate);
+    if (score !== undefined) evaluation.score = parseInt(score);
+    if (wdl !== undefined) evaluation.tbWdl = parseInt(wdl) as EvaluationResult['tbWdl'];
+    if (dtz !== undefined) evaluation.dtz = parseInt(dtz);
+    if (depth !== undefined) evaluation.depth = parseInt(depth);
+    if (bestMove !== undefined) evaluation.bestMove = bestMove;
+    evaluations[square] = evaluation;
+  }
+  return evaluations;
+}
+
+// --- Query string ---
+
+export function encodeDeepLink({ fen, sweepPiece, sweepBothSides, results }: DeepLink): string {
+  const params = new URLSearchParams();
+  params.set('fen', fen.trim().replace(/\s+/g, '_'));
+  if (sweepPiece) params.set('piece', sweepPiece);
+  if (sweepBothSides) params.set('both', '1');
+  if (results) {
+    params.set('swept', results.piece);
+    params.set('eval', encodeEvaluationMap(results.evaluations));
+    if (results.oppositeTurnEvaluations) params.set('eval2', encodeEvaluationMap(results.oppositeTurnEvaluations));
+  }
+  // "/" is allowed in a query string and keeps the FEN readable
+  return `?${params.toString().replace(/%2F/g, '/')}`;
+}
+
+// null when the query has no usable position; a malformed evaluation map only drops the results
+export function decodeDeepLink(search: string): DeepLink | null {
+  const params = new URLSearchParams(search);
+  const linkedFen = params.get('fen')?.replace(/_/g, ' ');
+  if (!linkedFen || !isWellFormedFen(linkedFen)) return null;
+  const fen = formatFen(parseFen(linkedFen)); // Fills in fields a hand-written link leaves out
+  const piece = params.get('piece');
+  const link: DeepLink = {
+    fen,
+    sweepPiece: isPieceCode(piece) ? piece : null,
+    sweepBothSides: params.get('both') === '1',
+    results: null,
+  };
+
+  const swept = params.get('swept');
+  const evalText = params.get('eval');
+  if (isPieceCode(swept) && evalText !== null) {
+    const turn = parseFen(fen).turn;
+    const evaluations = decodeEvaluationMap(evalText, fen, swept, turn);
+    const oppositeText = params.get('eval2');
+    const opposite = oppositeText === null ? null : decodeEvaluationMap(oppositeText, fen, swept, turn === 'w' ? 'b' : 'w');
+    if (evaluations && (oppositeText === null || opposite)) {
+      link.results = { piece: swept, evaluations, oppositeTurnEvaluations: opposite };
+    } else {
+      console.warn('[deepLink] Ignoring malformed evaluation map in the link');
+    }
+  }
+  return link;
+}
@@ -0,0 +1,143 @@
+// Named engine settings: UCI option values plus the search limit. Each engine consumer (the
+// sweep, EngineTest, PlayComputer) selects a profile of its own. Profiles and selections are
+// stored in localStorage and shared by every mounted component through a small store, so an
+// edit in the settings panel reaches the sweep without a reload.
+
+export type SearchLimitKind = 'movetime' | 'depth' | 'nodes';
+
+export interface SearchLimit {
+  kind: SearchLimitKind;
+  value: number; // ms, plies or nodes
+}
+
+export interface EngineProfile {
+  id: string;
+  name: string;
+  options: Record<string, string>; // Only options changed from the engine default
+  limit: SearchLimit;
+}
+
+export type EngineConsumer = 'sweep' | 'test' | 'play';
+
+export interface EngineProfileState {
+  profiles: EngineProfile[];
+  selection: Record<EngineConsumer, string>; // Profile id per consumer
+}
+
+const PROFILES_STORAGE_KEY = 'engineProfiles';
+const SELECTION_STORAGE_KEY = 'engineProfileSelection';
+
+// Quick scan and Long think reproduce the limits the app used before profiles existed;
+// Deep verify is a slower, deeper alternative for the sweep
+export const DEFAULT_PROFILES: EngineProfile[] = [
+  { id: 'quick-scan', name: 'Quick scan', options: {}, limit: { kind: 'movetime', value: 1000 } },
+  { id: 'deep-verify', name: 'Deep verify', options: { Hash: '128' }, limit: { kind: 'depth', value: 30 } },
+  { id: 'long-think', name: 'Long think', options: {}, limit: { kind: 'movetime', value: 20000 } },
+];
+
+const DEFAULT_SELECTION: Record<EngineConsumer, string> = { sweep: 'quick-scan', test: 'quick-scan', play: 'long-think' };
+
+// Options that change how fast the engine searches, not what it finds
+const RESOURCE_OPTIONS = new Set(['Hash', 'Threads', 'Move Overhead', 'Minimum Thinking Time', 'Slow Mover', 'Ponder']);
+
+export function isValidLimit(limit: SearchLimit | undefined): limit is SearchLimit {
+  return !!limit && ['movetime', 'depth', 'nodes'].includes(limit.kind) && Number.isInteger(limit.value) && limit.value > 0;
+}
+
+function isValidProfile(profile: Partial<EngineProfile> | null): profile is EngineProfile {
+  return !!profile && typeof profile.id === 'string' && typeof profile.name === 'string'
+    && typeof profile.options === 'object' && profile.options !== null && isValidLimit(profile.limit);
+}
+
+function loadState(): EngineProfileState {
+  let profiles = DEFAULT_PROFILES;
+  let selection = DEFAULT_SELECTION;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PROFILES_STORAGE_KEY) ?? 'null');
+    if (Array.isArray(stored) && stored.length > 0 && stored.every(isValidProfile)) profiles = stored;
+    selection = { ...DEFAULT_SELECTION, ...JSON.parse(window.localStorage.getItem(SELECTION_STORAGE_KEY) ?? '{}') };
+  } catch {
+    console.error('[engineProfiles] Failed to parse stored engine profiles');
+  }
+  // A selection whose profile was deleted falls back to the first profile
+  for (const consumer of Object.keys(selection) as EngineConsumer[]) {
+    if (!profiles.some(p => p.id === selection[consumer])) selection[consumer] = profiles[0].id;
+  }
+  return { profiles, selection };
+}
+
+// --- Store ---
+
+let state: EngineProfileState | null = null;
+const listeners = new Set<() => void>();
+
+export function getEngineProfileState(): EngineProfileState {
+  if (!state) state = loadState();
+  return state;
+}
+
+export function subscribeEngineProfiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setState(next: EngineProfileState) {
+  state = next;
+  window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(next.profiles));
+  window.localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(next.selection));
+  listeners.forEach(listener => listener());
+}
+
+export function saveEngineProfile(profile: EngineProfile) {
+  const current = getEngineProfileState();
+  const exists = current.profiles.some(p => p.id === profile.id);
+  setState({
+    ...current,
+    profiles: exists ? current.profiles.map(p => p.id === profile.id ? profile : p) : [...current.profiles, profile],
+  });
+}
+
+// The last profile cannot be deleted; consumers using the deleted one move to the first
+export function deleteEngineProfile(id: string) {
+  const current = getEngineProfileState();
+  const profiles = current.profiles.filter(p => p.id !== id);
+  if (profiles.length === 0) return;
+  const selection = { ...current.selection };
+  for (const consumer of Object.keys(selection) as EngineConsumer[]) {
+    if (selection[consumer] === id) selection[consumer] = profiles[0].id;
+  }
+  setState({ profiles, selection });
+}
+
+export function selectEngineProfile(consumer: EngineConsumer, id: string) {
+  const current = getEngineProfileState();
+  setState({ ...current, selection: { ...current.selection, [consumer]: id } });
+}
+
+export function createProfileId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+// --- UCI ---
+
+export function goCommand(limit: SearchLimit): string {
+  return `go ${limit.kind} ${limit.value}`;
+}
+
+export function setOptionCommands(options: Record<string, string>): string[] {
+  return Object.entries(options).map(([name, value]) => `setoption name ${name} value ${value}`);
+}
+
+export function formatLimit(limit: SearchLimit): string {
+  if (limit.kind === 'movetime') return `${limit.value / 1000} s per position`;
+  if (limit.kind === 'depth') return `depth ${limit.value}`;
+  return `${limit.value.toLocaleString()} nodes`;
+}
+
+// Results found with the same signature are interchangeable, whatever the hash size or
+// thread count was
+export function optionsSignature(options: Record<string, string>): string {
+  return Object.keys(options).filter(name => !RESOURCE_OPTIONS.has(name)).sort()
+    .map(name => `${name}=${options[name]}`).join(';');
+}
@@ -0,0 +1,171 @@
+// Engine results shared across sweeps, keyed by the canonical member of each position's
+// symmetry class (utils/symmetry). Mirror images of a position, and the same position with
+// the colours swapped, are searched once. Results are kept in the canonical orientation and
+// from the side to move's point of view, which no symmetry changes; only the moves need to
+// be mapped back. Entries are kept in memory and in IndexedDB, separately for every set of
+// engine options that can change the result.
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { optionsSignature, SearchLimit } from './engineProfiles';
+import { canonicalPosition, SymmetricPosition } from './symmetry';
+
+interface CacheRecord {
+  key: string; // Canonical position and options signature
+  limit: SearchLimit; // Budget of the search; the depth actually reached is in the result
+  result: EvaluationResult;
+  storedAt: number;
+}
+
+const DB_NAME = 'chess-endgames-evaluations';
+const DB_VERSION = 1;
+const STORE_NAME = 'positions';
+
+// A search still running, shared by every caller that asked for the same position. It has its
+// own signal, so one caller giving up does not abort it for the others.
+interface SharedSearch {
+  key: string;
+  promise: Promise<EvaluationResult | null>;
+  controller: AbortController;
+  waiting: number; // Callers that have not aborted
+}
+
+const memory = new Map<string, CacheRecord>();
+// Searches still running, so mirror images queued in the same sweep share one search
+const inFlight = new Map<string, SharedSearch>();
+
+// --- IndexedDB ---
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      // The cache still works for this session without IndexedDB
+      request.onerror = () => {
+        console.warn('[evaluationCache] IndexedDB unavailable, results will not persist:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function readRecord(key: string): Promise<CacheRecord | null> {
+  const cached = memory.get(key);
+  if (cached) return cached;
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => {
+      const record = (request.result as CacheRecord | undefined) ?? null;
+      if (record) memory.set(key, record);
+      resolve(record);
+    };
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function writeRecord(record: CacheRecord): Promise<void> {
+  memory.set(record.key, record);
+  const db = await openDb();
+  if (!db) return;
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.warn('[evaluationCache] Failed to store', record.key, transaction.error);
+      resolve();
+    };
+  });
+}
+
+// --- Lookups ---
+
+function toActualOrientation(result: EvaluationResult, position: SymmetricPosition): EvaluationResult {
+  return {
+    ...result,
+    bestMove: result.bestMove && position.toActual(result.bestMove),
+    ponder: result.ponder && position.toActual(result.ponder),
+    pv: result.pv?.map(position.toActual),
+  };
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Evaluation aborted', 'AbortError');
+}
+
+// Rejects as soon as this caller's signal aborts; the search itself is aborted once the last
+// caller waiting for it has given up
+function waitForSearch(search: SharedSearch, signal?: AbortSignal): Promise<EvaluationResult | null> {
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+  search.waiting++;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      search.waiting--;
+      if (search.waiting === 0) {
+        if (inFlight.get(search.key) === search) inFlight.delete(search.key);
+        search.controller.abort();
+      }
+      reject(abortReason(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    search.promise.then(
+      result => { signal?.removeEventListener('abort', onAbort); resolve(result); },
+      error => { signal?.removeEventListener('abort', onAbort); reject(error); },
+    );
+  });
+}
+
+// A result searched with the same kind of limit and at least the requested budget is
+// reused; anything else goes to evaluate() as the canonical FEN, and the answer is cached
+// for every symmetric square. evaluate() gets the shared search's signal, not the caller's.
+export async function cachedEvaluation(
+  fen: string,
+  limit: SearchLimit,
+  options: Record<string, string>,
+  evaluate: (canonicalFen: string, signal: AbortSignal) => Promise<EvaluationResult | null>,
+  signal?: AbortSignal,
+): Promise<EvaluationResult | null> {
+  const position = canonicalPosition(fen);
+  const key = `${position.key}|${optionsSignature(options)}`;
+  const record = await readRecord(key);
+  if (record && record.limit?.kind === limit.kind && record.limit.value >= limit.value) {
+    return toActualOrientation(record.result, position);
+  }
+
+  const flightKey = `${key}|${limit.kind} ${limit.value}`;
+  let search = inFlight.get(flightKey);
+  if (!search) {
+    const controller = new AbortController();
+    const promise = evaluate(position.fen, controller.signal).then(async result => {
+      if (result) await writeRecord({ key, limit, result, storedAt: Date.now() });
+      return result;
+    });
+    const shared: SharedSearch = { key: flightKey, promise, controller, waiting: 0 };
+    const settle = () => {
+      if (inFlight.get(flightKey) === shared) inFlight.delete(flightKey);
+    };
+    promise.then(settle, settle);
+    inFlight.set(flightKey, shared);
+    search = shared;
+  }
+  const result = await waitForSearch(search, signal);
+  return result && toActualOrientation(result, position);
+}
+
+export async function clearEvaluationCache(): Promise<void> {
+  memory.clear();
+  const db = await openDb();
+  if (!db) return;
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
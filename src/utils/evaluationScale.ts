@@ -0,0 +1,104 @@
+// Continuous colour scale for the heatmap overlay. Evaluations arrive from White's
+// perspective (see toWhitePerspective below) and are mapped onto -1 (Black wins)
+// ... 1 (White wins), with the user's win/draw thresholds as the anchor points.
+import type { EvaluationResult } from '../hooks/useStockfish';
+
+export interface EvaluationThresholds {
+  win: number;  // Centipawns from which a side counts as winning
+  draw: number; // Centipawns within which the position counts as a draw
+}
+
+export const DEFAULT_THRESHOLDS: EvaluationThresholds = { win: 200, draw: 50 };
+
+const THRESHOLDS_STORAGE_KEY = 'evaluationThresholds';
+
+export function loadThresholds(): EvaluationThresholds {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(THRESHOLDS_STORAGE_KEY) ?? 'null');
+    if (stored && isValidThresholds(stored)) return stored;
+  } catch {
+    console.error('[evaluationScale] Failed to parse stored thresholds');
+  }
+  return DEFAULT_THRESHOLDS;
+}
+
+export function saveThresholds(thresholds: EvaluationThresholds): void {
+  window.localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+}
+
+export function isValidThresholds(thresholds: EvaluationThresholds): boolean {
+  return Number.isFinite(thresholds.win) && Number.isFinite(thresholds.draw)
+    && thresholds.draw >= 0 && thresholds.win > thresholds.draw;
+}
+
+// Scale anchors: the draw band takes the first 20%, up to the win threshold 60%,
+// and three times the win threshold saturates
+const DRAW_SCALE = 0.2;
+const WIN_SCALE = 0.6;
+const SATURATION_FACTOR = 3;
+
+export function evaluationToScale(evaluation: EvaluationResult | null | undefined, thresholds: EvaluationThresholds): number | null {
+  if (!evaluation) return null;
+  if (evaluation.mate !== undefined) return evaluation.mate > 0 ? 1 : evaluation.mate < 0 ? -1 : (evaluation.tbWdl ?? 0) / 2;
+  if (evaluation.tbWdl !== undefined) return evaluation.tbWdl === 2 ? 1 : evaluation.tbWdl === -2 ? -1 : 0;
+  if (evaluation.score === undefined) return null;
+
+  const cp = Math.abs(evaluation.score);
+  let scale: number;
+  if (cp <= thresholds.draw) {
+    scale = thresholds.draw > 0 ? DRAW_SCALE * cp / thresholds.draw : 0;
+  } else if (cp <= thresholds.win) {
+    scale = DRAW_SCALE + (WIN_SCALE - DRAW_SCALE) * (cp - thresholds.draw) / (thresholds.win - thresholds.draw);
+  } else {
+    const saturation = thresholds.win * SATURATION_FACTOR;
+    scale = Math.min(1, WIN_SCALE + (1 - WIN_SCALE) * (cp - thresholds.win) / (saturation - thresholds.win));
+  }
+  return Math.sign(evaluation.score) * scale;
+}
+
+// Green for White, red for Black, fading to white around equality
+export function heatmapColor(scale: number, alpha = 0.65): string {
+  const hue = scale >= 0 ? 130 : 0;
+  const lightness = 96 - 50 * Math.abs(scale);
+  return `hsla(${hue}, 65%, ${lightness}%, ${alpha})`;
+}
+
+// Short label printed on a square: "M7" / "-M7", "+1.3", or the result of a tablebase probe
+export function formatEvaluation(evaluation: EvaluationResult | null | undefined): string {
+  if (!evaluation) return '';
+  if (evaluation.mate !== undefined) {
+    if (evaluation.mate === 0) return '#';
+    return `${evaluation.mate < 0 ? '-' : ''}M${Math.abs(evaluation.mate)}`;
+  }
+  if (evaluation.tbWdl !== undefined) return evaluation.tbWdl === 2 ? '1-0' : evaluation.tbWdl === -2 ? '0-1' : '½';
+  if (evaluation.score === undefined) return '';
+  const pawns = evaluation.score / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+// Win (1), draw (0) or loss (-1) for White, as the emoji overlay shows it; null when the
+// score falls between the draw and win thresholds
+export type EvaluationOutcome = 1 | 0 | -1;
+
+export function evaluationOutcome(evaluation: EvaluationResult | null | undefined, thresholds: EvaluationThresholds): EvaluationOutcome | null {
+  if (!evaluation) return null;
+  // Tablebase results are exact; cursed wins and blessed losses are draws under the 50-move rule
+  if (evaluation.tbWdl !== undefined) return evaluation.tbWdl === 2 ? 1 : evaluation.tbWdl === -2 ? -1 : 0;
+  if ((evaluation.mate && evaluation.mate > 0) || (evaluation.score !== undefined && evaluation.score > thresholds.win)) return 1;
+  if ((evaluation.mate && evaluation.mate < 0) || (evaluation.score !== undefined && evaluation.score < -thresholds.win)) return -1;
+  if (evaluation.score !== undefined && Math.abs(evaluation.score) <= thresholds.draw) return 0;
+  return null;
+}
+
+// Evaluations come from the side to move; the sweep stores everything from White's perspective
+export function toWhitePerspective(evaluation: EvaluationResult | null, turn: 'w' | 'b'): EvaluationResult | null {
+  if (turn === 'w' || !evaluation) return evaluation;
+  return {
+    ...evaluation,
+    score: evaluation.score !== undefined ? -evaluation.score : undefined,
+    mate: evaluation.mate !== undefined ? -evaluation.mate : undefined,
+    wdl: evaluation.wdl ? [evaluation.wdl[2], evaluation.wdl[1], evaluation.wdl[0]] : undefined,
+    tbWdl: evaluation.tbWdl !== undefined ? -evaluation.tbWdl as EvaluationResult['tbWdl'] : undefined,
+    dtz: evaluation.dtz !== undefined ? -evaluation.dtz : undefined,
+  };
+}
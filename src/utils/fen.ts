@@ -0,0 +1,43 @@
+// Splitting and joining the six FEN fields. The editor keeps castling rights, the en
+// passant target and the move counters of the loaded position instead of resetting them.
+
+export interface FenFields {
+  board: string;
+  turn: 'w' | 'b';
+  castling: string;  // "KQkq", a subset, or "-"
+  enPassant: string; // Target square or "-"
+  halfmove: number;  // Plies since the last capture or pawn move (50-move rule)
+  fullmove: number;
+}
+
+export const EMPTY_BOARD = '8/8/8/8/8/8/8/8';
+
+// Missing or malformed fields fall back to the defaults the editor used to write
+export function parseFen(fen: string): FenFields {
+  const [board, turn, castling, enPassant, halfmove, fullmove] = fen.trim().split(/\s+/);
+  const half = parseInt(halfmove);
+  const full = parseInt(fullmove);
+  return {
+    board: board || EMPTY_BOARD,
+    turn: turn === 'b' ? 'b' : 'w',
+    castling: castling && /^(-|K?Q?k?q?)$/.test(castling) ? castling : '-',
+    enPassant: enPassant && /^(-|[a-h][36])$/.test(enPassant) ? enPassant : '-',
+    halfmove: half >= 0 ? half : 0,
+    fullmove: full >= 1 ? full : 1,
+  };
+}
+
+export function formatFen({ board, turn, castling, enPassant, halfmove, fullmove }: FenFields): string {
+  return `${board} ${turn} ${castling || '-'} ${enPassant || '-'} ${halfmove} ${fullmove}`;
+}
+
+// Quick shape check for user input; legality is validateFen's job
+export function isWellFormedFen(fen: string): boolean {
+  const [board, turn] = fen.trim().split(/\s+/);
+  if (!board || (turn !== undefined && turn !== 'w' && turn !== 'b')) return false;
+  const rows = board.split('/');
+  return rows.length === 8 && rows.every(row => {
+    if (!/^[1-8pnbrqkPNBRQK]+$/.test(row)) return false;
+    return [...row].reduce((width, c) => width + (/\d/.test(c) ? parseInt(c) : 1), 0) === 8;
+  });
+}
@@ -0,0 +1,77 @@
+// Games on the play page: immutable move steps for React state, navigation through the
+// moves played, and the PGN export.
+import { Chess, Move, Square } from 'chess.js';
+import { EvaluationOutcome } from './evaluationScale';
+import { formatMoves } from './notation';
+
+export interface PgnHeaders {
+  event: string;
+  white: string;
+  black: string;
+  timeControl: string | null; // PGN form, e.g. "300+3"
+  termination: string | null;
+  extra: Record<string, string>; // Engine settings
+}
+
+// Position the game started from
+export function startingFen(game: Chess): string {
+  const moves = game.history({ verbose: true });
+  return moves.length > 0 ? moves[0].before : game.fen();
+}
+
+// Copy of the game with the given moves; replaying keeps the history, which the repetition draw needs
+function replay(fen: string, moves: Move[]): Chess {
+  const game = new Chess(fen);
+  moves.forEach(m => game.move(m.san));
+  return game;
+}
+
+// Copy of the game with one more move. Returns null for an illegal move.
+export function withMove(game: Chess, move: string | { from: Square; to: Square; promotion?: string }): Chess | null {
+  const next = replay(startingFen(game), game.history({ verbose: true }));
+  try {
+    next.move(move);
+  } catch {
+    return null;
+  }
+  return next;
+}
+
+// Copy of the game without its last plies
+export function withoutMoves(game: Chess, plies: number): Chess {
+  const moves = game.history({ verbose: true });
+  return replay(startingFen(game), moves.slice(0, Math.max(0, moves.length - plies)));
+}
+
+// FEN after the first `ply` moves
+export function fenAtPly(game: Chess, ply: number): string {
+  const moves = game.history({ verbose: true });
+  return ply === 0 ? startingFen(game) : moves[Math.min(ply, moves.length) - 1].after;
+}
+
+export function resultToken(result: EvaluationOutcome | null): string {
+  if (result === null) return '*';
+  return result === 1 ? '1-0' : result === -1 ? '0-1' : '1/2-1/2';
+}
+
+// The seven standard tags, then the start position, the time control and the engine settings
+export function gamePgn(game: Chess, result: EvaluationOutcome | null, headers: PgnHeaders): string {
+  const fen = startingFen(game);
+  const token = resultToken(result);
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const tags: [string, string][] = [
+    ['Event', headers.event],
+    ['Site', '?'],
+    ['Date', new Date().toISOString().slice(0, 10).replace(/-/g, '.')],
+    ['Round', '-'],
+    ['White', headers.white],
+    ['Black', headers.black],
+    ['Result', token],
+  ];
+  if (fen !== new Chess().fen()) tags.push(['SetUp', '1'], ['FEN', fen]);
+  if (headers.timeControl) tags.push(['TimeControl', headers.timeControl]);
+  if (headers.termination) tags.push(['Termination', headers.termination]);
+  tags.push(...Object.entries(headers.extra));
+  const movetext = [formatMoves(fen, game.history()), token].filter(Boolean).join(' ');
+  return [...tags.map(([name, value]) => `[${name} "${escape(value)}"]`), '', movetext, ''].join('\n');
+}
@@ -0,0 +1,62 @@
+// Search, filters and grouping for the history sidebar. Everything works on the summary
+// records, so filtering a long history never has to read the evaluations.
+import { parseFen } from './fen';
+import type { HistorySummary } from './historyStore';
+
+export interface HistoryFilter {
+  query: string;             // Every word must appear in the FEN, signature, name, tags or notes
+  signature: string | null;
+  turn: 'w' | 'b' | null;
+  withResultsOnly: boolean;  // Hide entries whose sweep never produced an evaluation
+}
+
+export interface HistoryGroup {
+  signature: string;
+  entries: HistorySummary[];
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { query: '', signature: null, turn: null, withResultsOnly: false };
+
+export function isFilterActive(filter: HistoryFilter): boolean {
+  return filter.query.trim() !== '' || filter.signature !== null || filter.turn !== null || filter.withResultsOnly;
+}
+
+// Tags are typed as a comma separated list
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
+}
+
+function searchText(summary: HistorySummary): string {
+  const { name = '', tags = [], notes = '' } = summary.details ?? {};
+  return [summary.fen, summary.signature, name, ...tags, notes].join('\n').toLowerCase();
+}
+
+export function filterHistory(summaries: HistorySummary[], filter: HistoryFilter): HistorySummary[] {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return summaries.filter(summary => {
+    if (filter.signature && summary.signature !== filter.signature) return false;
+    if (filter.turn && parseFen(summary.fen).turn !== filter.turn) return false;
+    if (filter.withResultsOnly && summary.resultCount === 0) return false;
+    if (words.length === 0) return true;
+    const text = searchText(summary);
+    return words.every(word => text.includes(word));
+  });
+}
+
+// Fewer pieces first, so the basic endgames head the list
+const compareSignatures = (a: string, b: string) => a.length - b.length || a.localeCompare(b);
+
+export function signaturesOf(summaries: HistorySummary[]): string[] {
+  return [...new Set(summaries.map(s => s.signature))].sort(compareSignatures);
+}
+
+// Entries keep their order inside a group
+export function groupBySignature(summaries: HistorySummary[]): HistoryGroup[] {
+  const groups = new Map<string, HistorySummary[]>();
+  for (const summary of summaries) {
+    const entries = groups.get(summary.signature);
+    if (entries) entries.push(summary);
+    else groups.set(summary.signature, [summary]);
+  }
+  return [...groups.keys()].sort(compareSignatures).map(signature => ({ signature, entries: groups.get(signature)! }));
+}
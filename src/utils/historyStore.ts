@@ -0,0 +1,240 @@
+// Evaluation history persisted in IndexedDB, one record per swept position. The list in
+// the sidebar only needs the small summary records; the per-square evaluations live in a
+// separate store and are read when an entry is opened.
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { canonicalSignature } from './retrograde';
+import { findMissingKing, PieceCode, piecesFromFen } from './sweep';
+
+// What the user wrote about an entry; kept when the entry is evaluated again
+export interface HistoryDetails {
+  name: string;
+  tags: string[];
+  notes: string;
+}
+
+export interface FenHistoryEntry {
+  fen: string;
+  piece: PieceCode;
+  evaluations: Record<string, EvaluationResult | null>;
+  oppositeTurnEvaluations?: Record<string, EvaluationResult | null>; // Both-sides sweeps only
+  details?: HistoryDetails; // Only set when the user has named, tagged or annotated the entry
+}
+
+export interface HistorySummary {
+  key: string;
+  fen: string;
+  piece: PieceCode;
+  signature: string; // Material of the swept position, stronger side first, e.g. "KRPvKR"
+  resultCount: number; // Squares with an evaluation, illegal placements excluded
+  details?: HistoryDetails;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface EvaluationRecord {
+  key: string;
+  evaluations: FenHistoryEntry['evaluations'];
+  oppositeTurnEvaluations?: FenHistoryEntry['oppositeTurnEvaluations'];
+}
+
+const DB_NAME = 'chess-endgames-history';
+// Schema version; every bump needs a step in upgradeSchema
+export const HISTORY_SCHEMA_VERSION = 2;
+const SUMMARY_STORE = 'summaries';
+const EVALUATION_STORE = 'evaluations';
+const LEGACY_STORAGE_KEY = 'fenEvaluationStorage';
+
+// Sweeps of different pieces on the same position are kept as separate entries
+export const historyKey = (fen: string, piece: PieceCode) => `${fen}|${piece}`;
+
+// The swept piece counts too: a KRvK sweep of the black king on "K1R5/8/..." is a KRvK study
+export function materialSignature(fen: string, piece: PieceCode): string {
+  const codes = piecesFromFen(fen).map(p => p.piece.color === 'w' ? p.piece.type.toUpperCase() : p.piece.type);
+  codes.push(piece);
+  const side = (isWhite: boolean) => codes.filter(c => (c === c.toUpperCase()) === isWhite).map(c => c.toUpperCase()).join('');
+  return canonicalSignature(side(true), side(false)).signature;
+}
+
+function countResults(entry: Pick<FenHistoryEntry, 'evaluations' | 'oppositeTurnEvaluations'>): number {
+  return [entry.evaluations, entry.oppositeTurnEvaluations ?? {}]
+    .reduce((count, evaluations) => count + Object.values(evaluations).filter(e => e && !e.illegal).length, 0);
+}
+
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+// The localStorage format stored either full entries under historyKey, or (before sweeps
+// could place any piece) the bare evaluation map under the FEN for the missing king
+function readLegacyHistory(): FenHistoryEntry[] {
+  let stored: Record<string, unknown>;
+  try {
+    stored = JSON.parse(window.localStorage.getItem(LEGACY_STORAGE_KEY) ?? '{}');
+  } catch {
+    console.error('[historyStore] Failed to parse legacy fenEvaluationStorage, skipping migration');
+    return [];
+  }
+  return Object.entries(stored).map(([key, value]) => {
+    const entry = value as Partial<FenHistoryEntry> | null;
+    if (entry && typeof entry.fen === 'string' && entry.piece && entry.evaluations) return entry as FenHistoryEntry;
+    return { fen: key, piece: findMissingKing(key) ?? 'k', evaluations: (value ?? {}) as FenHistoryEntry['evaluations'] };
+  });
+}
+
+function buildSummary(entry: FenHistoryEntry, createdAt: number, updatedAt: number): HistorySummary {
+  const summary: HistorySummary = {
+    key: historyKey(entry.fen, entry.piece),
+    fen: entry.fen,
+    piece: entry.piece,
+    signature: materialSignature(entry.fen, entry.piece),
+    resultCount: countResults(entry),
+    createdAt,
+    updatedAt,
+  };
+  if (entry.details) summary.details = entry.details;
+  return summary;
+}
+
+function writeRecords(transaction: IDBTransaction, entry: FenHistoryEntry, createdAt: number, updatedAt: number): HistorySummary {
+  const key = historyKey(entry.fen, entry.piece);
+  const summary = buildSummary(entry, createdAt, updatedAt);
+  const evaluations: EvaluationRecord = { key, evaluations: entry.evaluations };
+  if (entry.oppositeTurnEvaluations) evaluations.oppositeTurnEvaluations = entry.oppositeTurnEvaluations;
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  transaction.objectStore(EVALUATION_STORE).put(evaluations);
+  return summary;
+}
+
+let migratedLegacyHistory = false;
+
+function upgradeSchema(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(SUMMARY_STORE, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+    db.createObjectStore(EVALUATION_STORE, { keyPath: 'key' });
+    // One-time move of the old localStorage history, keeping its order
+    const now = Date.now();
+    readLegacyHistory().forEach((entry, i) => writeRecords(transaction, entry, now + i, now + i));
+    migratedLegacyHistory = true;
+  } else if (oldVersion < 2) {
+    // Version 2 adds the material signature and result count to the summaries
+    const evaluationStore = transaction.objectStore(EVALUATION_STORE);
+    const cursorRequest = transaction.objectStore(SUMMARY_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const summary = cursor.value as HistorySummary;
+      const recordRequest = evaluationStore.get(summary.key);
+      recordRequest.onsuccess = () => {
+        const record = recordRequest.result as EvaluationRecord | undefined;
+        cursor.update({ ...summary, signature: materialSignature(summary.fen, summary.piece), resultCount: record ? countResults(record) : 0 });
+        cursor.continue();
+      };
+    };
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, HISTORY_SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => upgradeSchema(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => {
+        // The upgrade transaction has committed, the old copy is no longer needed
+        if (migratedLegacyHistory) window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+// Summaries only, oldest first
+export async function listHistory(): Promise<HistorySummary[]> {
+  const db = await openDb();
+  const index = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).index('createdAt');
+  return requestResult(index.getAll() as IDBRequest<HistorySummary[]>);
+}
+
+async function readEntry(transaction: IDBTransaction, key: string): Promise<FenHistoryEntry | null> {
+  const [summary, record] = await Promise.all([
+    requestResult(transaction.objectStore(SUMMARY_STORE).get(key) as IDBRequest<HistorySummary | undefined>),
+    requestResult(transaction.objectStore(EVALUATION_STORE).get(key) as IDBRequest<EvaluationRecord | undefined>),
+  ]);
+  if (!summary || !record) return null;
+  const entry: FenHistoryEntry = { fen: summary.fen, piece: summary.piece, evaluations: record.evaluations };
+  if (record.oppositeTurnEvaluations) entry.oppositeTurnEvaluations = record.oppositeTurnEvaluations;
+  if (summary.details) entry.details = summary.details;
+  return entry;
+}
+
+export async function getHistoryEntry(key: string): Promise<FenHistoryEntry | null> {
+  const db = await openDb();
+  return readEntry(db.transaction([SUMMARY_STORE, EVALUATION_STORE], 'readonly'), key);
+}
+
+// Full entries for an export, in the order of the keys; missing keys are skipped
+export async function getHistoryEntries(keys: string[]): Promise<FenHistoryEntry[]> {
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, EVALUATION_STORE], 'readonly');
+  const entries = await Promise.all(keys.map(key => readEntry(transaction, key)));
+  return entries.filter((entry): entry is FenHistoryEntry => entry !== null);
+}
+
+// Insert or replace an entry; rejects with a QuotaExceededError when storage is full.
+// An entry without details keeps the ones already stored.
+export async function putHistoryEntry(entry: FenHistoryEntry): Promise<HistorySummary> {
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, EVALUATION_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const existing = await requestResult(transaction.objectStore(SUMMARY_STORE).get(historyKey(entry.fen, entry.piece)) as IDBRequest<HistorySummary | undefined>);
+  const now = Date.now();
+  const details = entry.details ?? existing?.details;
+  const summary = writeRecords(transaction, details ? { ...entry, details } : entry, existing?.createdAt ?? now, now);
+  await done;
+  return summary;
+}
+
+// Name, tags and notes live on the summary, so editing them leaves the evaluations alone
+export async function updateHistoryDetails(key: string, details: HistoryDetails): Promise<HistorySummary> {
+  const db = await openDb();
+  const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(SUMMARY_STORE);
+  const existing = await requestResult(store.get(key) as IDBRequest<HistorySummary | undefined>);
+  if (!existing) throw new Error(`No history entry ${key}`);
+  const summary: HistorySummary = { ...existing, updatedAt: Date.now() };
+  if (details.name || details.tags.length > 0 || details.notes) summary.details = details;
+  else delete summary.details;
+  store.put(summary);
+  await done;
+  return summary;
+}
+
+export async function deleteHistoryEntry(key: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, EVALUATION_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).delete(key);
+  transaction.objectStore(EVALUATION_STORE).delete(key);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,251 @@
+// Moving evaluation history between browsers: a JSON file with the full per-square results
+// that can be imported and merged, plus EPD and PGN exports of the swept positions for
+// other chess tools.
+import { Square } from 'chess.js';
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { isWellFormedFen, parseFen } from './fen';
+import { formatMoves, pvToSan } from './notation';
+import { FenHistoryEntry, getHistoryEntry, HistoryDetails, HISTORY_SCHEMA_VERSION, historyKey, putHistoryEntry } from './historyStore';
+import { ALL_SQUARES, PieceCode, placementFen } from './sweep';
+
+const FILE_FORMAT = 'chess-endgames-history';
+
+export interface HistoryFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: FenHistoryEntry[];
+}
+
+// How a square evaluated on both sides is resolved on import
+export type ConflictPolicy = 'deeper' | 'mine' | 'theirs';
+
+export interface ImportSummary {
+  added: number;
+  merged: number;
+  unchanged: number;
+}
+
+type EvaluationMap = FenHistoryEntry['evaluations'];
+
+const PIECE_CODES = new Set<string>(['K', 'Q', 'R', 'B', 'N', 'P', 'k', 'q', 'r', 'b', 'n', 'p']);
+
+// --- JSON ---
+
+export function serializeHistory(entries: FenHistoryEntry[]): string {
+  const file: HistoryFile = { format: FILE_FORMAT, version: HISTORY_SCHEMA_VERSION, exportedAt: new Date().toISOString(), entries };
+  return JSON.stringify(file, null, 2);
+}
+
+const isEvaluationMap = (value: unknown): value is EvaluationMap =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.entries(value).every(([square, result]) => ALL_SQUARES.includes(square as Square) && (result === null || typeof result === 'object'));
+
+const isDetails = (value: unknown): value is HistoryDetails => {
+  const details = value as Partial<HistoryDetails> | null;
+  return typeof details?.name === 'string' && typeof details.notes === 'string' &&
+    Array.isArray(details.tags) && details.tags.every(tag => typeof tag === 'string');
+};
+
+// Throws with a message for the user when the file is not a history export
+export function parseHistoryFile(text: string): FenHistoryEntry[] {
+  let file: Partial<HistoryFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (file?.format !== FILE_FORMAT || !Array.isArray(file.entries)) {
+    throw new Error('The file is not an evaluation history export');
+  }
+  if (typeof file.version !== 'number' || file.version > HISTORY_SCHEMA_VERSION) {
+    throw new Error('The file was written by a newer version of the app');
+  }
+  return file.entries.map((entry, i) => {
+    const candidate = entry as Partial<FenHistoryEntry> | null;
+    if (!candidate || typeof candidate.fen !== 'string' || !isWellFormedFen(candidate.fen) ||
+        typeof candidate.piece !== 'string' || !PIECE_CODES.has(candidate.piece) || !isEvaluationMap(candidate.evaluations) ||
+        (candidate.oppositeTurnEvaluations !== undefined && !isEvaluationMap(candidate.oppositeTurnEvaluations)) ||
+        (candidate.details !== undefined && !isDetails(candidate.details))) {
+      throw new Error(`Entry ${i + 1} of the file is malformed`);
+    }
+    return candidate as FenHistoryEntry;
+  });
+}
+
+// --- Merging ---
+
+// Proven and illegal results cannot be improved on; engine results rank by search depth
+function resultRank(result: EvaluationResult | null | undefined): number {
+  if (!result) return -1;
+  if (result.illegal || result.source === 'tablebase' || result.source === 'retrograde') return Infinity;
+  return result.depth ?? 0;
+}
+
+function mergeEvaluationMaps(mine: EvaluationMap, theirs: EvaluationMap, policy: ConflictPolicy): EvaluationMap {
+  const merged: EvaluationMap = { ...mine };
+  for (const [square, result] of Object.entries(theirs)) {
+    const own = mine[square];
+    if (own === undefined || own === null) {
+      if (result !== null || own === undefined) merged[square] = result;
+    } else if (result !== null && (policy === 'theirs' || (policy === 'deeper' && resultRank(result) > resultRank(own)))) {
+      merged[square] = result;
+    }
+  }
+  return merged;
+}
+
+// Tags are combined; a name or notes written on one side only are taken over
+function mergeDetails(mine: HistoryDetails | undefined, theirs: HistoryDetails | undefined, policy: ConflictPolicy): HistoryDetails | undefined {
+  if (!mine || !theirs) return mine ?? theirs;
+  const [first, second] = policy === 'theirs' ? [theirs, mine] : [mine, theirs];
+  return {
+    name: first.name || second.name,
+    tags: [...new Set([...first.tags, ...second.tags])],
+    notes: first.notes || second.notes,
+  };
+}
+
+// Squares only one side has evaluated are always kept; the policy decides the others
+export function mergeHistoryEntry(mine: FenHistoryEntry, theirs: FenHistoryEntry, policy: ConflictPolicy): FenHistoryEntry {
+  const merged: FenHistoryEntry = { ...mine, evaluations: mergeEvaluationMaps(mine.evaluations, theirs.evaluations, policy) };
+  if (mine.oppositeTurnEvaluations || theirs.oppositeTurnEvaluations) {
+    merged.oppositeTurnEvaluations = mergeEvaluationMaps(mine.oppositeTurnEvaluations ?? {}, theirs.oppositeTurnEvaluations ?? {}, policy);
+  }
+  const details = mergeDetails(mine.details, theirs.details, policy);
+  if (details) merged.details = details;
+  return merged;
+}
+
+export async function importHistory(entries: FenHistoryEntry[], policy: ConflictPolicy): Promise<ImportSummary> {
+  const summary: ImportSummary = { added: 0, merged: 0, unchanged: 0 };
+  for (const entry of entries) {
+    const existing = await getHistoryEntry(historyKey(entry.fen, entry.piece));
+    if (!existing) {
+      await putHistoryEntry(entry);
+      summary.added++;
+      continue;
+    }
+    const merged = mergeHistoryEntry(existing, entry, policy);
+    if (JSON.stringify(merged) === JSON.stringify(existing)) {
+      summary.unchanged++;
+    } else {
+      await putHistoryEntry(merged);
+      summary.merged++;
+    }
+  }
+  return summary;
+}
+
+// --- EPD / PGN ---
+
+interface SweptPosition {
+  fen: string;
+  piece: PieceCode;
+  square: Square;
+  evaluation: EvaluationResult; // From White's point of view, as stored in the history
+}
+
+// Every legal evaluated position of the entries, for both sides to move when available
+function sweptPositions(entries: FenHistoryEntry[]): SweptPosition[] {
+  const positions: SweptPosition[] = [];
+  for (const entry of entries) {
+    const turn = parseFen(entry.fen).turn;
+    const maps: [EvaluationMap | undefined, 'w' | 'b'][] = [
+      [entry.evaluations, turn],
+      [entry.oppositeTurnEvaluations, turn === 'w' ? 'b' : 'w'],
+    ];
+    for (const [evaluations, sideToMove] of maps) {
+      for (const square of ALL_SQUARES) {
+        const evaluation = evaluations?.[square];
+        if (!evaluation || evaluation.illegal) continue;
+        positions.push({ fen: placementFen(entry.fen, entry.piece, square, sideToMove), piece: entry.piece, square, evaluation });
+      }
+    }
+  }
+  return positions;
+}
+
+// A tablebase win or loss that the 50-move rule turns into a draw (tbWdl ±1)
+const isCursedResult = (evaluation: EvaluationResult) => evaluation.tbWdl === 1 || evaluation.tbWdl === -1;
+
+// EPD "ce" is in centipawns for the side to move; mates use the usual 32767 - plies encoding.
+// Cursed wins and blessed losses are draws under the rules, and exported as such.
+export function centipawnsForSideToMove(evaluation: EvaluationResult, turn: 'w' | 'b'): number | null {
+  const sign = turn === 'w' ? 1 : -1;
+  if (isCursedResult(evaluation)) return 0;
+  if (evaluation.mate !== undefined) {
+    // Checkmate on the board; tbWdl says who is mated, older results only for the side to move
+    if (evaluation.mate === 0) return evaluation.tbWdl !== undefined && evaluation.tbWdl * sign > 0 ? 32767 : -32767;
+    const mate = evaluation.mate * sign;
+    return mate > 0 ? 32767 - (2 * mate - 1) : -32767 + 2 * -mate;
+  }
+  if (evaluation.score !== undefined) return evaluation.score * sign;
+  if (evaluation.tbWdl !== undefined) return evaluation.tbWdl === 0 ? 0 : (evaluation.tbWdl > 0 ? 1 : -1) * sign * 20000;
+  return null;
+}
+
+export function historyToEpd(entries: FenHistoryEntry[]): string {
+  return sweptPositions(entries).map(({ fen, piece, square, evaluation }) => {
+    const fields = parseFen(fen);
+    const operations: string[] = [];
+    const ce = centipawnsForSideToMove(evaluation, fields.turn);
+    if (ce !== null) operations.push(`ce ${ce}`);
+    const mate = evaluation.mate !== undefined && !isCursedResult(evaluation) ? evaluation.mate * (fields.turn === 'w' ? 1 : -1) : 0;
+    if (mate > 0) operations.push(`dm ${mate}`);
+    if (evaluation.depth !== undefined) operations.push(`acd ${evaluation.depth}`);
+    const [bestMove] = pvToSan(fen, evaluation.pv ?? (evaluation.bestMove ? [evaluation.bestMove] : undefined));
+    if (bestMove) operations.push(`bm ${bestMove}`);
+    operations.push(`hmvc ${fields.halfmove}`, `fmvn ${fields.fullmove}`);
+    operations.push(`id "${piece}@${square}"`, `c0 "${evaluation.source ?? 'engine'}"`);
+    return `${fields.board} ${fields.turn} ${fields.castling} ${fields.enPassant} ${operations.join('; ')};`;
+  }).join('\n') + '\n';
+}
+
+// [%eval] is always from White's point of view: pawns with the depth, or #N for a mate.
+// Cursed wins and blessed losses are draws, as in the EPD export.
+function evalComment(evaluation: EvaluationResult): string | null {
+  let value: string;
+  if (isCursedResult(evaluation)) value = '0.00';
+  else if (evaluation.mate !== undefined) value = `#${evaluation.mate}`;
+  else if (evaluation.score !== undefined) value = (evaluation.score / 100).toFixed(2);
+  else if (evaluation.tbWdl !== undefined) value = evaluation.tbWdl === 0 ? '0.00' : evaluation.tbWdl > 0 ? '200.00' : '-200.00';
+  else return null;
+  return `[%eval ${value}${evaluation.depth !== undefined ? `,${evaluation.depth}` : ''}]`;
+}
+
+
+// One game per swept position, with the engine line as the moves
+export function historyToPgn(entries: FenHistoryEntry[]): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '.');
+  return sweptPositions(entries).map(({ fen, piece, square, evaluation }) => {
+    const comment = evalComment(evaluation);
+    const moves = formatMoves(fen, pvToSan(fen, evaluation.pv));
+    const movetext = [comment && `{ ${comment} }`, moves, '*'].filter(Boolean).join(' ');
+    return [
+      `[Event "Sweep ${piece}@${square}"]`,
+      '[Site "?"]',
+      `[Date "${date}"]`,
+      '[Round "-"]',
+      '[White "?"]',
+      '[Black "?"]',
+      '[Result "*"]',
+      '[SetUp "1"]',
+      `[FEN "${fen}"]`,
+      '',
+      movetext,
+      '',
+    ].join('\n');
+  }).join('\n');
+}
+
+// --- Files ---
+
+export function downloadText(filename: string, text: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,31 @@
+// Move notation shared by the exports, the play page and the analysis panel
+import { Chess } from 'chess.js';
+import { parseFen } from './fen';
+
+// The principal variation in SAN, cut at the first move that does not apply
+export function pvToSan(fen: string, pv: string[] | undefined): string[] {
+  if (!pv) return [];
+  const game = new Chess(fen);
+  const moves: string[] = [];
+  for (const uci of pv) {
+    try {
+      moves.push(game.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san);
+    } catch {
+      break;
+    }
+  }
+  return moves;
+}
+
+// Movetext with move numbers, starting with "12..." when Black moves first
+export function formatMoves(fen: string, moves: string[]): string {
+  const fields = parseFen(fen);
+  let moveNumber = fields.fullmove;
+  let whiteToMove = fields.turn === 'w';
+  return moves.map((san, i) => {
+    const prefix = whiteToMove ? `${moveNumber}. ` : i === 0 ? `${moveNumber}... ` : '';
+    if (!whiteToMove) moveNumber++;
+    whiteToMove = !whiteToMove;
+    return prefix + san;
+  }).join(' ');
+}
@@ -0,0 +1,98 @@
+// Settings of the play page: how strong the engine plays and the time control. Both are kept
+// in localStorage; the engine profile of the "play" consumer still supplies the other options.
+
+export type EngineStrength =
+  | { kind: 'full' }
+  | { kind: 'skill'; level: number } // Stockfish "Skill Level"
+  | { kind: 'elo'; elo: number };    // UCI_LimitStrength with UCI_Elo
+
+export interface TimeControl {
+  minutes: number;   // Starting time per side
+  increment: number; // Seconds added after every move, 0 for sudden death
+}
+
+export interface PlaySettings {
+  strength: EngineStrength;
+  timeControl: TimeControl | null; // null: no clocks, the engine uses the profile's search limit
+}
+
+// Remaining time per side in ms
+export interface ClockTimes {
+  w: number;
+  b: number;
+}
+
+export const SKILL_LEVEL_RANGE = { min: 0, max: 20 };
+export const ELO_RANGE = { min: 1320, max: 3190 }; // What current Stockfish accepts for UCI_Elo
+
+const STORAGE_KEY = 'playSettings';
+const DEFAULT_SETTINGS: PlaySettings = { strength: { kind: 'full' }, timeControl: null };
+const LOW_TIME_MS = 10_000; // Tenths are shown below this
+
+function isValidStrength(strength: EngineStrength | undefined): boolean {
+  if (!strength) return false;
+  if (strength.kind === 'full') return true;
+  if (strength.kind === 'skill') return Number.isInteger(strength.level) && strength.level >= SKILL_LEVEL_RANGE.min && strength.level <= SKILL_LEVEL_RANGE.max;
+  return strength.kind === 'elo' && Number.isInteger(strength.elo) && strength.elo >= ELO_RANGE.min && strength.elo <= ELO_RANGE.max;
+}
+
+export function isValidTimeControl(timeControl: TimeControl | null): boolean {
+  return timeControl === null || (timeControl.minutes > 0 && timeControl.increment >= 0);
+}
+
+export function loadPlaySettings(): PlaySettings {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && isValidStrength(stored.strength) && isValidTimeControl(stored.timeControl ?? null)) {
+      return { strength: stored.strength, timeControl: stored.timeControl ?? null };
+    }
+  } catch {
+    console.error('[playSettings] Failed to parse stored settings');
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function savePlaySettings(settings: PlaySettings): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Full strength sets nothing, so the play profile's own values stand; the options a weaker
+// strength set go back to the profile's values or the engine's defaults when it is dropped
+export function strengthOptions(strength: EngineStrength): Record<string, string> {
+  if (strength.kind === 'skill') return { 'Skill Level': String(strength.level), UCI_LimitStrength: 'false' };
+  if (strength.kind === 'elo') return { 'Skill Level': String(SKILL_LEVEL_RANGE.max), UCI_LimitStrength: 'true', UCI_Elo: String(strength.elo) };
+  return {};
+}
+
+export function initialClockTimes({ minutes }: TimeControl): ClockTimes {
+  return { w: minutes * 60_000, b: minutes * 60_000 };
+}
+
+// The engine manages its own time from the clocks, as in a real game
+export function clockGoCommand(times: ClockTimes, { increment }: TimeControl): string {
+  const inc = increment * 1000;
+  return `go wtime ${Math.max(0, Math.round(times.w))} btime ${Math.max(0, Math.round(times.b))} winc ${inc} binc ${inc}`;
+}
+
+// "4:05", and "8.3" in the last ten seconds
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < LOW_TIME_MS) return (Math.floor(clamped / 100) / 10).toFixed(1);
+  const seconds = Math.ceil(clamped / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function isLowTime(ms: number): boolean {
+  return ms < LOW_TIME_MS;
+}
+
+// TimeControl tag of a PGN: seconds plus increment, e.g. "300+3"
+export function pgnTimeControl({ minutes, increment }: TimeControl): string {
+  return `${minutes * 60}+${increment}`;
+}
+
+export function formatStrength(strength: EngineStrength): string {
+  if (strength.kind === 'skill') return `skill level ${strength.level}`;
+  if (strength.kind === 'elo') return `Elo ${strength.elo}`;
+  return 'full strength';
+}
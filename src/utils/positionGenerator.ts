@@ -0,0 +1,124 @@
+// Random legal positions for a material signature such as "KRPvKR" (White's pieces first),
+// for practice sets of one endgame type. Positions can go to the editor one at a time or be
+// queued as sweeps: the chosen piece is taken off and the sweep puts it on every square.
+import { Chess, Square } from 'chess.js';
+import { EMPTY_BOARD, formatFen } from './fen';
+import { validateFen } from './positionValidation';
+import { ALL_SQUARES, PieceCode, pieceFromCode, placementFen } from './sweep';
+
+export interface GeneratorConstraints {
+  sideToMove: 'w' | 'b' | null; // null: either
+  pawnOnSeventh: boolean;        // A pawn one step from promotion
+  kingsInOpposition: boolean;    // Kings on one file or rank with one square between them
+}
+
+export interface GeneratorSettings {
+  signature: string;
+  constraints: GeneratorConstraints;
+  count: number;
+  sweepPiece: PieceCode; // Piece the queued sweeps take off and place
+}
+
+// A position waiting for its sweep in the evaluation queue
+export interface QueuedSweep {
+  fen: string; // Without the swept piece
+  piece: PieceCode;
+}
+
+export const MAX_GENERATED = 50;
+
+const STORAGE_KEY = 'positionGenerator';
+const DEFAULT_SETTINGS: GeneratorSettings = {
+  signature: 'KRvK',
+  constraints: { sideToMove: null, pawnOnSeventh: false, kingsInOpposition: false },
+  count: 10,
+  sweepPiece: 'k',
+};
+const ATTEMPTS_PER_POSITION = 500; // Random placements tried per position asked for
+const OPPOSITION_STEPS = [[0, 2], [0, -2], [2, 0], [-2, 0]];
+
+export function loadGeneratorSettings(): GeneratorSettings {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.signature === 'string' && stored.constraints && stored.count >= 1 && stored.count <= MAX_GENERATED && stored.sweepPiece) return stored;
+  } catch {
+    console.error('[positionGenerator] Failed to parse stored settings');
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function saveGeneratorSettings(settings: GeneratorSettings): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Piece codes of a signature, white uppercase; null when it is not "K...vK..." or the
+// material could not come from a game
+export function parseMaterial(signature: string): PieceCode[] | null {
+  const match = /^(K[QRBNP]*)V(K[QRBNP]*)$/.exec(signature.trim().toUpperCase());
+  if (!match) return null;
+  const sides = [match[1], match[2]];
+  if (sides.some(side => side.length > 16 || [...side].filter(c => c === 'P').length > 8)) return null;
+  return [...sides[0]].map(c => c as PieceCode).concat([...sides[1]].map(c => c.toLowerCase() as PieceCode));
+}
+
+const squareAt = (file: number, rank: number) => `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
+const randomItem = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// One random placement of the material, null when it misses the constraints or is illegal
+function randomPosition(material: PieceCode[], constraints: GeneratorConstraints, random: () => number): string | null {
+  const board = new Map<Square, PieceCode>();
+  const free = () => ALL_SQUARES.filter(square => !board.has(square));
+
+  const whiteKing = randomItem(ALL_SQUARES, random);
+  board.set(whiteKing, 'K');
+  if (constraints.kingsInOpposition) {
+    const [df, dr] = randomItem(OPPOSITION_STEPS, random);
+    const file = whiteKing.charCodeAt(0) - 97 + df;
+    const rank = parseInt(whiteKing[1]) - 1 + dr;
+    if (file < 0 || file > 7 || rank < 0 || rank > 7) return null;
+    board.set(squareAt(file, rank), 'k');
+  } else {
+    board.set(randomItem(free(), random), 'k');
+  }
+
+  const others = material.filter(code => code !== 'K' && code !== 'k');
+  if (constraints.pawnOnSeventh) {
+    const pawn = randomItem(others.filter(code => code === 'P' || code === 'p'), random);
+    if (!pawn) return null;
+    const seventh = free().filter(square => square[1] === (pawn === 'P' ? '7' : '2'));
+    if (seventh.length === 0) return null;
+    board.set(randomItem(seventh, random), pawn);
+    others.splice(others.indexOf(pawn), 1);
+  }
+  for (const code of others) {
+    const squares = free().filter(square => pieceFromCode(code).type !== 'p' || (square[1] !== '1' && square[1] !== '8'));
+    board.set(randomItem(squares, random), code);
+  }
+
+  const turn = constraints.sideToMove ?? (random() < 0.5 ? 'w' : 'b');
+  const fen = [...board].reduce((current, [square, code]) => placementFen(current, code, square, turn),
+    formatFen({ board: EMPTY_BOARD, turn, castling: '-', enPassant: '-', halfmove: 0, fullmove: 1 }));
+  if (validateFen(fen).length > 0) return null;
+  // Finished games make poor practice positions
+  return new Chess(fen).isGameOver() ? null : fen;
+}
+
+// Up to `count` different positions; fewer when the constraints leave too few
+export function generatePositions(material: PieceCode[], constraints: GeneratorConstraints, count: number, random: () => number = Math.random): string[] {
+  const positions = new Set<string>();
+  for (let attempt = 0; attempt < count * ATTEMPTS_PER_POSITION && positions.size < count; attempt++) {
+    const fen = randomPosition(material, constraints, random);
+    if (fen) positions.add(fen);
+  }
+  return [...positions];
+}
+
+// The position with one piece of the given code taken off, for a sweep of that piece
+export function withoutPiece(fen: string, piece: PieceCode): string {
+  const rows = fen.split(' ')[0].split('/');
+  const rank = rows.findIndex(row => row.includes(piece));
+  if (rank === -1) return fen;
+  const expanded = rows[rank].replace(/\d/g, n => '1'.repeat(parseInt(n))).replace(piece, '1');
+  rows[rank] = expanded.replace(/1+/g, ones => String(ones.length));
+  return [rows.join('/'), ...fen.split(' ').slice(1)].join(' ');
+}
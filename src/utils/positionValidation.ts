@@ -0,0 +1,128 @@
+// Legality checks for positions built in the editor or by the sweep. A FEN can describe
+// boards no game could ever reach (pawns on the back rank, a third king, the side that
+// just moved still in check); engines and tablebases give meaningless answers for those.
+import { Chess, Color, Square } from 'chess.js';
+import { piecesFromFen } from './sweep';
+
+export interface PositionProblem {
+  message: string;
+  squares: Square[]; // Squares to highlight, empty when the problem is not tied to a square
+}
+
+export interface ValidationOptions {
+  allowMissingKings?: boolean; // The editor sweeps a missing king, so that is not an error there
+}
+
+const SIDE_NAMES: Record<Color, string> = { w: 'White', b: 'Black' };
+const STARTING_COUNTS: Record<string, number> = { q: 1, r: 2, b: 2, n: 2 };
+
+const other = (color: Color): Color => color === 'w' ? 'b' : 'w';
+
+export function validateFen(fen: string, { allowMissingKings = false }: ValidationOptions = {}): PositionProblem[] {
+  const problems: PositionProblem[] = [];
+  const [, turnField = 'w', castlingField = '-', enPassantField = '-'] = fen.trim().split(/\s+/);
+  const turn: Color = turnField === 'b' ? 'b' : 'w';
+  const pieces = piecesFromFen(fen);
+
+  const game = new Chess();
+  game.clear();
+  const kings: Record<Color, Square[]> = { w: [], b: [] };
+  for (const { square, piece } of pieces) {
+    if (piece.type === 'k') kings[piece.color].push(square);
+    else game.put(piece, square);
+  }
+
+  for (const color of ['w', 'b'] as const) {
+    const side = SIDE_NAMES[color];
+    const own = pieces.filter(p => p.piece.color === color);
+    const pawns = own.filter(p => p.piece.type === 'p');
+
+    if (kings[color].length === 0 && !allowMissingKings) {
+      problems.push({ message: `${side} has no king`, squares: [] });
+    } else if (kings[color].length > 1) {
+      problems.push({ message: `${side} has ${kings[color].length} kings`, squares: kings[color] });
+    }
+
+    const backRankPawns = pawns.filter(p => p.square[1] === '1' || p.square[1] === '8');
+    if (backRankPawns.length > 0) {
+      problems.push({ message: `${side} pawn on the first or last rank`, squares: backRankPawns.map(p => p.square) });
+    }
+    if (pawns.length > 8) {
+      problems.push({ message: `${side} has ${pawns.length} pawns`, squares: pawns.map(p => p.square) });
+    }
+    if (own.length > 16) {
+      problems.push({ message: `${side} has ${own.length} pieces`, squares: [] });
+    }
+
+    // Every piece beyond the starting set must come from a promoted pawn
+    const promoted = Object.entries(STARTING_COUNTS)
+      .reduce((sum, [type, start]) => sum + Math.max(0, own.filter(p => p.piece.type === type).length - start), 0);
+    if (pawns.length <= 8 && promoted > 8 - pawns.length) {
+      problems.push({ message: `${side} has more promoted pieces than missing pawns`, squares: [] });
+    }
+  }
+
+  // Check rules only make sense with one king per side
+  if (kings.w.length === 1 && kings.b.length === 1) {
+    game.put({ type: 'k', color: 'w' }, kings.w[0]);
+    game.put({ type: 'k', color: 'b' }, kings.b[0]);
+
+    const waiting = other(turn);
+    const waitingKing = kings[waiting][0];
+    const checkers = game.attackers(waitingKing, turn);
+    if (checkers.length > 0) {
+      problems.push({ message: `${SIDE_NAMES[waiting]} is in check but it is ${SIDE_NAMES[turn]}'s move`, squares: [waitingKing, ...checkers] });
+    }
+    const movingKing = kings[turn][0];
+    const movingCheckers = game.attackers(movingKing, waiting);
+    if (movingCheckers.length > 2) {
+      problems.push({ message: `${SIDE_NAMES[turn]} is in check from ${movingCheckers.length} pieces`, squares: [movingKing, ...movingCheckers] });
+    }
+  }
+
+  problems.push(...validateCastling(castlingField, pieces));
+  problems.push(...validateEnPassant(enPassantField, turn, pieces));
+  return problems;
+}
+
+// Castling rights need the king and the rook on their original squares
+function validateCastling(castling: string, pieces: ReturnType<typeof piecesFromFen>): PositionProblem[] {
+  if (castling === '-') return [];
+  const at = (square: string) => pieces.find(p => p.square === square)?.piece;
+  const isPiece = (square: string, type: string, color: Color) => at(square)?.type === type && at(square)?.color === color;
+  const requirements: Record<string, [Color, string, string]> = {
+    K: ['w', 'e1', 'h1'], Q: ['w', 'e1', 'a1'], k: ['b', 'e8', 'h8'], q: ['b', 'e8', 'a8'],
+  };
+  const problems: PositionProblem[] = [];
+  for (const right of castling) {
+    const requirement = requirements[right];
+    if (!requirement) {
+      problems.push({ message: `Unknown castling right "${right}"`, squares: [] });
+      continue;
+    }
+    const [color, kingSquare, rookSquare] = requirement;
+    if (!isPiece(kingSquare, 'k', color) || !isPiece(rookSquare, 'r', color)) {
+      problems.push({ message: `Castling right ${right} needs the king on ${kingSquare} and a rook on ${rookSquare}`, squares: [kingSquare as Square, rookSquare as Square] });
+    }
+  }
+  return problems;
+}
+
+// The en passant target must sit behind a pawn that has just made a double step
+function validateEnPassant(enPassant: string, turn: Color, pieces: ReturnType<typeof piecesFromFen>): PositionProblem[] {
+  if (enPassant === '-') return [];
+  const match = /^([a-h])([36])$/.exec(enPassant);
+  const expectedRank = turn === 'w' ? '6' : '3';
+  if (!match || match[2] !== expectedRank) {
+    return [{ message: `En passant square ${enPassant} is not possible with ${SIDE_NAMES[turn]} to move`, squares: [] }];
+  }
+  const file = match[1];
+  const pawnSquare = `${file}${turn === 'w' ? '5' : '4'}`;
+  const originSquare = `${file}${turn === 'w' ? '7' : '2'}`;
+  const pawn = pieces.find(p => p.square === pawnSquare)?.piece;
+  const occupied = pieces.some(p => p.square === enPassant || p.square === originSquare);
+  if (pawn?.type !== 'p' || pawn.color !== other(turn) || occupied) {
+    return [{ message: `En passant square ${enPassant} needs a ${SIDE_NAMES[other(turn)]} pawn that just moved to ${pawnSquare}`, squares: [enPassant as Square] }];
+  }
+  return [];
+}
@@ -0,0 +1,99 @@
+// Practice mode: a position from the editor or the history is played out against the engine
+// on the play page, and the result is compared with the evaluation stored for it.
+//
+//   /play?fen=8/8/8/8/8/8/8/4K2R_b_-_-_0_1          play this position
+//   /play?fen=8/8/8/8/8/8/8/4K2R_b_-_-_0_1&piece=k  history entry: place the swept piece first
+import { Chess, Square } from 'chess.js';
+import type { EvaluationResult } from '../hooks/useStockfish';
+import { EvaluationOutcome } from './evaluationScale';
+import { formatFen, isWellFormedFen, parseFen } from './fen';
+import { getHistoryEntries, historyKey } from './historyStore';
+import { PieceCode, piecesFromFen } from './sweep';
+
+export interface PracticeSetup {
+  fen: string;
+  piece: PieceCode | null; // Swept piece of a history entry, placed by the user before the game
+}
+
+const PIECE_CODES = new Set<string>(['K', 'Q', 'R', 'B', 'N', 'P', 'k', 'q', 'r', 'b', 'n', 'p']);
+
+export function practicePath(fen: string, piece: PieceCode | null = null): string {
+  const params = new URLSearchParams();
+  params.set('fen', fen.trim().replace(/\s+/g, '_'));
+  if (piece) params.set('piece', piece);
+  return `/play?${params.toString().replace(/%2F/g, '/')}`;
+}
+
+// null for the plain play page, or a query without a usable position
+export function decodePracticeQuery(search: string): PracticeSetup | null {
+  const params = new URLSearchParams(search);
+  const fen = params.get('fen')?.replace(/_/g, ' ');
+  if (!fen || !isWellFormedFen(fen)) return null;
+  const piece = params.get('piece');
+  return { fen: formatFen(parseFen(fen)), piece: piece && PIECE_CODES.has(piece) ? piece as PieceCode : null };
+}
+
+// The sweep result this position came from, from White's perspective. Every piece on the
+// board could be the swept one, so each is taken off in turn and the remaining position is
+// looked up in the history, with the same and with the other side to move.
+export async function findStoredEvaluation(fen: string): Promise<EvaluationResult | null> {
+  const fields = parseFen(fen);
+  const candidates: { key: string; square: Square }[] = [];
+  const pieces = piecesFromFen(fen);
+  for (const { square, piece } of pieces) {
+    const game = new Chess();
+    game.clear();
+    pieces.filter(p => p.square !== square).forEach(p => game.put(p.piece, p.square));
+    const board = game.fen().split(' ')[0];
+    const code = (piece.color === 'w' ? piece.type.toUpperCase() : piece.type) as PieceCode;
+    for (const turn of [fields.turn, fields.turn === 'w' ? 'b' : 'w'] as const) {
+      const baseFen = formatFen({ ...fields, board, turn, enPassant: turn === fields.turn ? fields.enPassant : '-' });
+      candidates.push({ key: historyKey(baseFen, code), square });
+    }
+  }
+  const entries = await getHistoryEntries(candidates.map(c => c.key));
+  for (const entry of entries) {
+    const { square } = candidates.find(c => c.key === historyKey(entry.fen, entry.piece))!;
+    const sameTurn = parseFen(entry.fen).turn === fields.turn;
+    const evaluation = sameTurn ? entry.evaluations[square] : entry.oppositeTurnEvaluations?.[square];
+    if (evaluation && !evaluation.illegal) return evaluation;
+  }
+  return null;
+}
+
+// Result of a finished game for White, null while it is still going
+export function gameOutcome(game: Chess): EvaluationOutcome | null {
+  if (!game.isGameOver()) return null;
+  if (game.isCheckmate()) return game.turn() === 'w' ? -1 : 1;
+  return 0;
+}
+
+// Result after a flag fall: the side out of time loses, unless the opponent could never mate.
+// That is a bare king, or a single minor piece against a bare king; with any piece left on the
+// flagged side even a lone knight can mate, so K+N against K+P still wins on time.
+export function flagOutcome(game: Chess, flagged: 'w' | 'b'): EvaluationOutcome {
+  const pieces = game.board().flat().filter(p => p && p.type !== 'k');
+  const opponent = pieces.filter(p => p!.color !== flagged);
+  const flaggedBare = pieces.length === opponent.length;
+  const canMate = opponent.length > 1
+    || opponent.some(p => p!.type !== 'b' && p!.type !== 'n')
+    || (opponent.length === 1 && !flaggedBare);
+  if (!canMate) return 0;
+  return flagged === 'w' ? -1 : 1;
+}
+
+// How the game went compared with the stored evaluation, from the user's side
+export function practiceVerdict(expected: EvaluationOutcome | null, result: EvaluationOutcome, userColor: 'w' | 'b'): string {
+  const sign = userColor === 'w' ? 1 : -1;
+  const mine = result * sign;
+  const outcome = mine > 0 ? 'You won' : mine < 0 ? 'You lost' : 'Draw';
+  if (expected === null) return `${outcome}. There is no conclusive stored evaluation to compare with.`;
+  const predicted = expected * sign;
+  if (predicted > 0) return mine > 0 ? 'You converted the win.' : `${outcome}: the stored evaluation says this position is won for you.`;
+  if (predicted < 0) {
+    if (mine < 0) return 'You lost, as the stored evaluation predicted.';
+    return mine === 0 ? 'You held a lost position to a draw.' : 'You won a position the stored evaluation calls lost.';
+  }
+  if (mine === 0) return 'You held the draw.';
+  return mine > 0 ? 'You won a position the stored evaluation calls a draw.' : 'You lost a position the stored evaluation calls a draw.';
+}
@@ -0,0 +1,54 @@
+// Progressive sweep: every square is first scanned at a low depth, then only the squares
+// whose result is still in doubt are searched again, a few plies deeper each round, until
+// nothing is in doubt or the time budget is spent. Obviously won or drawn squares stop
+// costing engine time after the scan.
+import type { EvaluationResult } from '../hooks/useStockfish';
+import type { EvaluationThresholds } from './evaluationScale';
+
+export interface ProgressiveSweepSettings {
+  enabled: boolean;
+  budgetSeconds: number; // Total time for the sweep, the scan included
+}
+
+export const SCAN_DEPTH = 10;
+export const DEPTH_STEP = 4;
+export const MAX_REFINE_DEPTH = 40;
+
+const STORAGE_KEY = 'progressiveSweep';
+const DEFAULT_SETTINGS: ProgressiveSweepSettings = { enabled: false, budgetSeconds: 60 };
+const MIN_MARGIN = 15; // Centipawns
+
+export function loadProgressiveSettings(): ProgressiveSweepSettings {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.enabled === 'boolean' && stored.budgetSeconds > 0) return stored;
+  } catch {
+    console.error('[progressiveSweep] Failed to parse stored settings');
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function saveProgressiveSettings(settings: ProgressiveSweepSettings): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// How close to a threshold, or how large a swing between depths, still counts as undecided
+function refinementMargin(thresholds: EvaluationThresholds): number {
+  return Math.max(MIN_MARGIN, (thresholds.win - thresholds.draw) / 4);
+}
+
+// Only engine scores are refined: proven results are exact and a found mate does not go away.
+// The thresholds are symmetric, so either point of view works.
+export function needsRefinement(
+  result: EvaluationResult | null | undefined,
+  previous: EvaluationResult | null | undefined,
+  thresholds: EvaluationThresholds,
+): boolean {
+  if (!result || result.source !== 'engine' || result.illegal || result.mate !== undefined || result.score === undefined) return false;
+  const margin = refinementMargin(thresholds);
+  const distance = Math.abs(result.score);
+  if (Math.abs(distance - thresholds.draw) < margin || Math.abs(distance - thresholds.win) < margin) return true;
+  if (!previous) return false;
+  // A mate that disappeared or a large swing means the scan depth was not enough
+  return previous.mate !== undefined || (previous.score !== undefined && Math.abs(result.score - previous.score) > margin);
+}
@@ -0,0 +1,540 @@
+// Retrograde analysis for small endgames (up to four pieces, kings included).
+// solveTable() builds an exact distance-to-mate table for one material signature by
+// working backwards from the mates; captures and promotions look up the already solved
+// table of the resulting material. Everything is synchronous and meant to run in
+// retrograde.worker.ts.
+//
+// Limitations: castling is not possible with this little material anyway, en passant
+// captures are ignored and the 50-move rule is not applied (values are pure DTM).
+
+export type SolverPieceType = 'k' | 'q' | 'r' | 'b' | 'n' | 'p';
+
+export interface SolverPiece {
+  type: SolverPieceType;
+  color: 0 | 1; // 0 = white, 1 = black
+}
+
+export interface SolvedTable {
+  signature: string; // Canonical signature, e.g. "KBNvK"
+  pieces: SolverPiece[];
+  // One byte per (squares, side to move): 0 = draw, 255 = illegal, otherwise plies to mate + 1.
+  // An odd number of plies means the side to move mates, an even number that it gets mated.
+  dtm: Uint8Array;
+}
+
+export interface SolverResult {
+  wdl: 'win' | 'draw' | 'loss'; // Side to move perspective
+  plies: number; // Plies to mate, 0 for draws and for positions that already are mate
+}
+
+export type SolvedTableGetter = (signature: string) => SolvedTable;
+export type SolverProgress = (ply: number, resolved: number) => void;
+
+export const MAX_SOLVER_PIECES = 4;
+export const DRAW = 0;
+export const ILLEGAL = 255;
+
+const PIECE_ORDER = 'KQRBNP';
+const PIECE_VALUES: Record<string, number> = { K: 0, Q: 9, R: 5, B: 3, N: 3, P: 1 };
+
+// --- Attack and move tables ---
+
+const fileOf = (s: number) => s & 7;
+const rankOf = (s: number) => s >> 3;
+
+const KING_STEPS: number[][] = [];
+const KNIGHT_STEPS: number[][] = [];
+const RAYS: number[][][] = []; // RAYS[direction][square] = squares in that direction, nearest first
+const DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+const ROOK_DIRECTIONS = [0, 1, 2, 3];
+const BISHOP_DIRECTIONS = [4, 5, 6, 7];
+const QUEEN_DIRECTIONS = [0, 1, 2, 3, 4, 5, 6, 7];
+// DIRECTION_BETWEEN[from * 64 + to] = direction index from 'from' towards 'to', or -1 if not aligned
+const DIRECTION_BETWEEN = new Int8Array(64 * 64).fill(-1);
+
+(function initTables() {
+  const onBoard = (f: number, r: number) => f >= 0 && f < 8 && r >= 0 && r < 8;
+  for (let s = 0; s < 64; s++) {
+    const f = fileOf(s);
+    const r = rankOf(s);
+    KING_STEPS[s] = DIRECTIONS.filter(([df, dr]) => onBoard(f + df, r + dr)).map(([df, dr]) => s + df + dr * 8);
+    KNIGHT_STEPS[s] = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]]
+      .filter(([df, dr]) => onBoard(f + df, r + dr)).map(([df, dr]) => s + df + dr * 8);
+  }
+  DIRECTIONS.forEach(([df, dr], d) => {
+    RAYS[d] = [];
+    for (let s = 0; s < 64; s++) {
+      const ray: number[] = [];
+      for (let f = fileOf(s) + df, r = rankOf(s) + dr; onBoard(f, r); f += df, r += dr) {
+        ray.push(r * 8 + f);
+        DIRECTION_BETWEEN[s * 64 + r * 8 + f] = d;
+      }
+      RAYS[d][s] = ray;
+    }
+  });
+})();
+
+// --- Signatures ---
+
+function sortSide(side: string): string {
+  return [...side].sort((a, b) => PIECE_ORDER.indexOf(a) - PIECE_ORDER.indexOf(b)).join('');
+}
+
+function sideStrength(side: string): number {
+  return [...side].reduce((sum, c) => sum + PIECE_VALUES[c], 0);
+}
+
+// The canonical signature has the stronger side as white; the other colouring is looked up
+// by swapping colours and mirroring the board.
+export function canonicalSignature(white: string, black: string): { signature: string; flipped: boolean } {
+  const w = sortSide(white);
+  const b = sortSide(black);
+  const whiteFirst = sideStrength(w) > sideStrength(b)
+    || (sideStrength(w) === sideStrength(b) && (w.length > b.length || (w.length === b.length && w <= b)));
+  return whiteFirst ? { signature: `${w}v${b}`, flipped: false } : { signature: `${b}v${w}`, flipped: true };
+}
+
+export function parseSignature(signature: string): SolverPiece[] | null {
+  const match = /^(K[QRBNP]*)v(K[QRBNP]*)$/.exec(signature);
+  if (!match || match[1].length + match[2].length > MAX_SOLVER_PIECES) return null;
+  const toPieces = (side: string, color: 0 | 1) =>
+    [...sortSide(side)].map(c => ({ type: c.toLowerCase() as SolverPieceType, color }));
+  return [...toPieces(match[1], 0), ...toPieces(match[2], 1)];
+}
+
+function signatureOfPieces(pieces: SolverPiece[]): { signature: string; flipped: boolean } {
+  const side = (color: 0 | 1) => pieces.filter(p => p.color === color).map(p => p.type.toUpperCase()).join('');
+  return canonicalSignature(side(0), side(1));
+}
+
+// Canonical signatures a table depends on through captures and promotions
+export function childSignatures(signature: string): string[] {
+  const pieces = parseSignature(signature);
+  if (!pieces) return [];
+  const children = new Set<string>();
+  pieces.forEach((piece, i) => {
+    if (piece.type !== 'k') children.add(signatureOfPieces(pieces.filter((_, j) => j !== i)).signature);
+    if (piece.type === 'p') {
+      for (const promotion of ['q', 'r', 'b', 'n'] as const) {
+        children.add(signatureOfPieces(pieces.map((p, j) => j === i ? { ...p, type: promotion } : p)).signature);
+      }
+    }
+  });
+  children.delete('KvK'); // Always a draw, never stored
+  return [...children];
+}
+
+// --- Index helpers ---
+
+// index = (squares packed 6 bits per piece, first piece highest) << 1 | side to move
+function encode(squares: ArrayLike<number>, count: number, stm: number): number {
+  let packed = 0;
+  for (let i = 0; i < count; i++) packed = packed * 64 + squares[i];
+  return packed * 2 + stm;
+}
+
+// Map a piece placement onto a table's piece slots; returns the table index or -1
+function placementIndex(table: SolvedTable, placed: { piece: SolverPiece; square: number }[], stm: number, flipped: boolean): number {
+  const used = new Array<boolean>(placed.length).fill(false);
+  const squares: number[] = [];
+  for (const slot of table.pieces) {
+    const color = flipped ? 1 - slot.color : slot.color;
+    const match = placed.findIndex((p, i) => !used[i] && p.piece.type === slot.type && p.piece.color === color);
+    if (match === -1) return -1;
+    used[match] = true;
+    squares.push(flipped ? placed[match].square ^ 56 : placed[match].square);
+  }
+  return encode(squares, squares.length, flipped ? 1 - stm : stm);
+}
+
+export function decodeValue(code: number): SolverResult | null {
+  if (code === ILLEGAL) return null;
+  if (code === DRAW) return { wdl: 'draw', plies: 0 };
+  const plies = code - 1;
+  return { wdl: plies % 2 === 1 ? 'win' : 'loss', plies };
+}
+
+// --- The solver ---
+
+interface Conversion {
+  table: SolvedTable | null; // null for KvK
+  slots: number[];           // Parent piece index for every child piece slot
+  flipped: boolean;
+}
+
+export function solveTable(signature: string, getTable: SolvedTableGetter, onProgress?: SolverProgress): SolvedTable {
+  const pieces = parseSignature(signature);
+  if (!pieces) throw new Error(`Unsupported material signature: ${signature}`);
+  if (canonicalSignature(...signature.split('v') as [string, string]).signature !== signature) {
+    throw new Error(`Signature is not canonical: ${signature}`);
+  }
+
+  const n = pieces.length;
+  const size = 2 * 64 ** n;
+  const dtm = new Uint8Array(size);
+  const convWin = new Uint8Array(size);  // Best winning capture/promotion, as a dtm code
+  const recheck = new Uint8Array(size);  // Ply at which a loss held up by slow conversions is re-verified
+  const seedsAtPly = new Int32Array(256);
+  const kingIndex = [pieces.findIndex(p => p.type === 'k' && p.color === 0), pieces.findIndex(p => p.type === 'k' && p.color === 1)];
+
+  const sq = new Int32Array(n);
+  const board = new Int8Array(64).fill(-1); // Piece index per square
+  const conversions = new Map<number, Conversion>();
+
+  const decode = (idx: number) => {
+    let packed = Math.floor(idx / 2);
+    for (let i = n - 1; i >= 0; i--) {
+      sq[i] = packed % 64;
+      packed = Math.floor(packed / 64);
+    }
+  };
+  const fillBoard = () => {
+    board.fill(-1);
+    for (let i = 0; i < n; i++) board[sq[i]] = i;
+  };
+
+  const isAttacked = (target: number, byColor: number, ignore: number): boolean => {
+    for (let i = 0; i < n; i++) {
+      if (i === ignore || pieces[i].color !== byColor) continue;
+      const from = sq[i];
+      switch (pieces[i].type) {
+        case 'k':
+          if (Math.abs(fileOf(from) - fileOf(target)) <= 1 && Math.abs(rankOf(from) - rankOf(target)) <= 1 && from !== target) return true;
+          break;
+        case 'n':
+          if (KNIGHT_STEPS[from].includes(target)) return true;
+          break;
+        case 'p': {
+          const forward = byColor === 0 ? 1 : -1;
+          if (rankOf(target) - rankOf(from) === forward && Math.abs(fileOf(target) - fileOf(from)) === 1) return true;
+          break;
+        }
+        default: {
+          const d = DIRECTION_BETWEEN[from * 64 + target];
+          if (d === -1) break;
+          const type = pieces[i].type;
+          if ((type === 'r' && d > 3) || (type === 'b' && d < 4)) break;
+          let blocked = false;
+          for (const s of RAYS[d][from]) {
+            if (s === target) break;
+            if (board[s] !== -1 && board[s] !== ignore) { blocked = true; break; }
+          }
+          if (!blocked) return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const conversionFor = (mover: number, captured: number, promotion: SolverPieceType | null): Conversion => {
+    const key = (mover * 8 + captured + 1) * 8 + (promotion ? 'qrbn'.indexOf(promotion) + 1 : 0);
+    let conversion = conversions.get(key);
+    if (!conversion) {
+      const childPieces = pieces
+        .map((p, i) => ({ piece: i === mover && promotion ? { ...p, type: promotion } : p, parent: i }))
+        .filter(c => c.parent !== captured);
+      const { signature: childSignature, flipped } = signatureOfPieces(childPieces.map(c => c.piece));
+      const table = childSignature === 'KvK' ? null : getTable(childSignature);
+      const slots: number[] = [];
+      if (table) {
+        const used = new Set<number>();
+        for (const slot of table.pieces) {
+          const color = flipped ? 1 - slot.color : slot.color;
+          const match = childPieces.find(c => !used.has(c.parent) && c.piece.type === slot.type && c.piece.color === color)!;
+          used.add(match.parent);
+          slots.push(match.parent);
+        }
+      }
+      conversion = { table, slots, flipped };
+      conversions.set(key, conversion);
+    }
+    return conversion;
+  };
+
+  // Value of a capture/promotion from the point of view of the side to move after it
+  const childSquares = new Int32Array(n);
+  const conversionValue = (conversion: Conversion, stmAfter: number): number => {
+    if (!conversion.table) return DRAW;
+    const count = conversion.slots.length;
+    for (let j = 0; j < count; j++) {
+      const s = sq[conversion.slots[j]];
+      childSquares[j] = conversion.flipped ? s ^ 56 : s;
+    }
+    return conversion.table.dtm[encode(childSquares, count, conversion.flipped ? 1 - stmAfter : stmAfter)];
+  };
+
+  // Generate the legal moves of the side to move for the position in sq/board.
+  // visit(mover, to, captured, promotion) is called with the move applied to sq/board.
+  type MoveVisitor = (mover: number, captured: number, promotion: SolverPieceType | null) => boolean | void;
+  const forEachLegalMove = (stm: number, visit: MoveVisitor): boolean => {
+    const tryMove = (mover: number, to: number, promotion: SolverPieceType | null): boolean => {
+      const from = sq[mover];
+      const captured = board[to];
+      board[from] = -1;
+      board[to] = mover;
+      sq[mover] = to;
+      let stop = false;
+      if (!isAttacked(sq[kingIndex[stm]], 1 - stm, captured)) {
+        stop = visit(mover, captured, promotion) === true;
+      }
+      sq[mover] = from;
+      board[from] = mover;
+      board[to] = captured;
+      return stop;
+    };
+    const targetOk = (to: number) => board[to] === -1 || (pieces[board[to]].color !== stm && pieces[board[to]].type !== 'k');
+
+    for (let i = 0; i < n; i++) {
+      const piece = pieces[i];
+      if (piece.color !== stm) continue;
+      const from = sq[i];
+      switch (piece.type) {
+        case 'k':
+        case 'n':
+          for (const to of (piece.type === 'k' ? KING_STEPS : KNIGHT_STEPS)[from]) {
+            if (targetOk(to) && tryMove(i, to, null)) return true;
+          }
+          break;
+        case 'p': {
+          const forward = stm === 0 ? 8 : -8;
+          const lastRank = stm === 0 ? 7 : 0;
+          const startRank = stm === 0 ? 1 : 6;
+          const targets: number[] = [];
+          const one = from + forward;
+          if (board[one] === -1) {
+            targets.push(one);
+            if (rankOf(from) === startRank && board[one + forward] === -1) targets.push(one + forward);
+          }
+          for (const df of [-1, 1]) {
+            const f = fileOf(from) + df;
+            if (f < 0 || f > 7) continue;
+            const to = one + df;
+            if (board[to] !== -1 && targetOk(to)) targets.push(to);
+          }
+          for (const to of targets) {
+            if (rankOf(to) === lastRank) {
+              for (const promotion of ['q', 'r', 'b', 'n'] as const) {
+                if (tryMove(i, to, promotion)) return true;
+              }
+            } else if (tryMove(i, to, null)) {
+              return true;
+            }
+          }
+          break;
+        }
+        default: {
+          const directions = piece.type === 'r' ? ROOK_DIRECTIONS : piece.type === 'b' ? BISHOP_DIRECTIONS : QUEEN_DIRECTIONS;
+          for (const d of directions) {
+            for (const to of RAYS[d][from]) {
+              if (board[to] === -1) {
+                if (tryMove(i, to, null)) return true;
+                continue;
+              }
+              if (targetOk(to) && tryMove(i, to, null)) return true;
+              break;
+            }
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  // Is the position at idx lost in exactly `ply` plies: every move leads to an opponent win
+  // in at most ply - 1 plies?
+  const verifyLoss = (idx: number, ply: number): boolean => {
+    const stm = idx % 2;
+    decode(idx);
+    fillBoard();
+    let allLose = true;
+    let moves = 0;
+    forEachLegalMove(stm, (mover, captured, promotion) => {
+      moves++;
+      const code = captured !== -1 || promotion
+        ? conversionValue(conversionFor(mover, captured, promotion), 1 - stm)
+        : dtm[encode(sq, n, 1 - stm)];
+      if (code === DRAW || code === ILLEGAL || (code - 1) % 2 === 0 || code - 1 > ply - 1) {
+        allLose = false;
+        return true; // Stop early
+      }
+    });
+    return allLose && moves > 0; // Stalemate is not a loss
+  };
+
+  // Pass 1: illegal positions, mates and the value of every capture/promotion
+  let frontier: number[] = [];
+  let lastSeedPly = 0;
+  for (let idx = 0; idx < size; idx++) {
+    const stm = idx % 2;
+    decode(idx);
+    let illegal = false;
+    for (let i = 0; i < n && !illegal; i++) {
+      if (pieces[i].type === 'p' && (rankOf(sq[i]) === 0 || rankOf(sq[i]) === 7)) illegal = true;
+      for (let j = i + 1; j < n && !illegal; j++) if (sq[i] === sq[j]) illegal = true;
+    }
+    if (!illegal) {
+      fillBoard();
+      illegal = isAttacked(sq[kingIndex[1 - stm]], stm, -1); // Side not to move is in check
+    }
+    if (illegal) {
+      dtm[idx] = ILLEGAL;
+      continue;
+    }
+
+    let moves = 0;
+    let bestWin = 0;   // Plies of the fastest winning conversion
+    let worstLoss = 0; // Plies of the slowest losing conversion
+    let drawingConversion = false;
+    forEachLegalMove(stm, (mover, captured, promotion) => {
+      moves++;
+      if (captured === -1 && !promotion) return;
+      const code = conversionValue(conversionFor(mover, captured, promotion), 1 - stm);
+      if (code === DRAW) {
+        drawingConversion = true;
+      } else if ((code - 1) % 2 === 0) { // Opponent gets mated
+        if (!bestWin || code < bestWin) bestWin = code;
+      } else {
+        worstLoss = Math.max(worstLoss, code);
+      }
+    });
+
+    if (moves === 0) {
+      if (isAttacked(sq[kingIndex[stm]], 1 - stm, -1)) {
+        dtm[idx] = 1; // Checkmated: lost in 0 plies
+        frontier.push(idx);
+      }
+      continue; // Stalemate stays a draw
+    }
+    if (bestWin && bestWin + 1 < ILLEGAL) {
+      convWin[idx] = bestWin + 1; // One ply more than the child
+      seedsAtPly[bestWin]++;
+      lastSeedPly = Math.max(lastSeedPly, bestWin);
+    } else if (!drawingConversion && worstLoss) {
+      recheck[idx] = worstLoss; // Child plies + 1 = this position's loss ply
+      seedsAtPly[worstLoss]++;
+      lastSeedPly = Math.max(lastSeedPly, worstLoss);
+    }
+  }
+
+  // Retrograde passes: frontier holds the positions resolved at ply - 1
+  let resolved = frontier.length;
+  const predecessor = new Int32Array(n);
+  for (let ply = 1; ply < ILLEGAL - 1 && (frontier.length > 0 || ply <= lastSeedPly); ply++) {
+    const next: number[] = [];
+    const winning = ply % 2 === 1;
+    const code = ply + 1;
+
+    const resolve = (idx: number) => {
+      dtm[idx] = code;
+      next.push(idx);
+    };
+
+    for (const idx of frontier) {
+      const stm = idx % 2;
+      const mover = 1 - stm; // The side that made the last move
+      decode(idx);
+      fillBoard();
+      predecessor.set(sq);
+      // Un-move every piece of the side that just moved (quiet moves only)
+      for (let i = 0; i < n; i++) {
+        const piece = pieces[i];
+        if (piece.color !== mover) continue;
+        const to = sq[i];
+        const origins: number[] = [];
+        if (piece.type === 'k' || piece.type === 'n') {
+          for (const from of (piece.type === 'k' ? KING_STEPS : KNIGHT_STEPS)[to]) if (board[from] === -1) origins.push(from);
+        } else if (piece.type === 'p') {
+          const back = mover === 0 ? -8 : 8;
+          const one = to + back;
+          const startRank = mover === 0 ? 1 : 6;
+          if (rankOf(one) !== (mover === 0 ? 0 : 7) && board[one] === -1) {
+            origins.push(one);
+            if (rankOf(one + back) === startRank && board[one + back] === -1) origins.push(one + back);
+          }
+        } else {
+          const directions = piece.type === 'r' ? ROOK_DIRECTIONS : piece.type === 'b' ? BISHOP_DIRECTIONS : QUEEN_DIRECTIONS;
+          for (const d of directions) {
+            for (const from of RAYS[d][to]) {
+              if (board[from] !== -1) break;
+              origins.push(from);
+            }
+          }
+        }
+        for (const from of origins) {
+          predecessor[i] = from;
+          const prev = encode(predecessor, n, mover);
+          predecessor[i] = to;
+          if (dtm[prev] !== DRAW) continue; // Illegal or already resolved
+          if (winning) {
+            resolve(prev);
+          } else {
+            // verifyLoss overwrites sq/board, so restore them afterwards
+            const lost = verifyLoss(prev, ply);
+            decode(idx);
+            fillBoard();
+            if (lost) resolve(prev);
+          }
+        }
+      }
+    }
+
+    // Positions decided by a capture or promotion at exactly this ply
+    if (seedsAtPly[ply]) {
+      for (let idx = 0; idx < size; idx++) {
+        if (dtm[idx] !== DRAW) continue;
+        if (winning && convWin[idx] === code) resolve(idx);
+        else if (!winning && recheck[idx] === ply && verifyLoss(idx, ply)) resolve(idx);
+      }
+    }
+
+    resolved += next.length;
+    frontier = next;
+    onProgress?.(ply, resolved);
+  }
+
+  return { signature, pieces, dtm };
+}
+
+// --- Probing ---
+
+export interface PlacedPiece {
+  piece: SolverPiece;
+  square: number; // 0 = a1 ... 63 = h8
+}
+
+// Signature of a position, or null if it has too much material for the solver
+export function positionSignature(placed: PlacedPiece[]): { signature: string; flipped: boolean } | null {
+  if (placed.length > MAX_SOLVER_PIECES || placed.length < 2) return null;
+  const kings = placed.filter(p => p.piece.type === 'k');
+  if (kings.length !== 2 || kings[0].piece.color === kings[1].piece.color) return null;
+  return signatureOfPieces(placed.map(p => p.piece));
+}
+
+// Parse the board and side to move out of a FEN; null when castling or en passant is possible
+export function placementFromFen(fen: string): { placed: PlacedPiece[]; stm: 0 | 1 } | null {
+  const [board, turn, castling, enPassant] = fen.trim().split(/\s+/);
+  if (!board || (castling && castling !== '-') || (enPassant && enPassant !== '-')) return null;
+  const placed: PlacedPiece[] = [];
+  const rows = board.split('/');
+  if (rows.length !== 8) return null;
+  for (let r = 0; r < 8; r++) {
+    let f = 0;
+    for (const c of rows[r]) {
+      if (/\d/.test(c)) {
+        f += parseInt(c);
+      } else {
+        const type = c.toLowerCase();
+        if (!'kqrbnp'.includes(type)) return null;
+        placed.push({ piece: { type: type as SolverPieceType, color: c === type ? 1 : 0 }, square: (7 - r) * 8 + f });
+        f++;
+      }
+    }
+  }
+  return { placed, stm: turn === 'b' ? 1 : 0 };
+}
+
+export function probeSolvedTable(table: SolvedTable | null, placed: PlacedPiece[], stm: 0 | 1, flipped: boolean): SolverResult | null {
+  if (!table) return { wdl: 'draw', plies: 0 }; // KvK
+  const idx = placementIndex(table, placed, stm, flipped);
+  return idx === -1 ? null : decodeValue(table.dtm[idx]);
+}
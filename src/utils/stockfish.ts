@@ -1,3 +1,5 @@
+import { parseUciLine } from './uci';
+
 // Type definitions for Stockfish Web Worker
 interface StockfishWorker {
   postMessage(message: string): void;
@@ -12,6 +14,8 @@ interface EvaluationResult {
   depth: number;
   nodes: number;
   time: number;
+  pv: string[];
+  bestMove: string | null;
 }
 
 let stockfishInstance: StockfishWorker | null = null;
@@ -44,9 +48,10 @@ function initializeStockfish(): Promise<void> {
       stockfishInstance.onmessage = (event: { data: string }) => {
         const message = event.data;
         console.log('Stockfish message:', message);
-        
+        const parsed = parseUciLine(message);
+
         // Handle initial engine ready messages
-        if (message === 'readyok' || message.includes('Stockfish')) {
+        if (parsed.type === 'readyok' || (parsed.type === 'id' && parsed.field === 'name')) {
           isEngineReady = true;
           resolve();
           return;
@@ -54,10 +59,10 @@ function initializeStockfish(): Promise<void> {
 
         // Handle evaluation messages
         if (currentEvaluationResolve) {
-          if (message.startsWith('bestmove')) {
-            // If we get a bestmove and have a last evaluation, use it
+          if (parsed.type === 'bestmove') {
+            // The search is finished, report the last exact evaluation
             if (lastEvaluation && currentEvaluationResolve) {
-              currentEvaluationResolve(lastEvaluation);
+              currentEvaluationResolve({ ...lastEvaluation, bestMove: parsed.move });
               currentEvaluationResolve = null;
               currentEvaluationReject = null;
               lastEvaluation = null;
@@ -65,58 +70,18 @@ function initializeStockfish(): Promise<void> {
             return;
           }
 
-          if (message.includes('score cp')) {
-            const scoreMatch = message.match(/score cp (-?\d+)/);
-            const depthMatch = message.match(/depth (\d+)/);
-            const nodesMatch = message.match(/nodes (\d+)/);
-            const timeMatch = message.match(/time (\d+)/);
-
-            if (scoreMatch && depthMatch) {
-              const result: EvaluationResult = {
-                score: parseInt(scoreMatch[1]) / 100,
-                mate: null,
-                depth: parseInt(depthMatch[1]),
-                nodes: nodesMatch ? parseInt(nodesMatch[1]) : 0,
-                time: timeMatch ? parseInt(timeMatch[1]) : 0
-              };
-              
-              // Store this evaluation
-              lastEvaluation = result;
-              
-              // Resolve immediately for quick evaluations
-              if (currentEvaluationResolve) {
-                currentEvaluationResolve(result);
-                currentEvaluationResolve = null;
-                currentEvaluationReject = null;
-                lastEvaluation = null;
-              }
-            }
-          } else if (message.includes('score mate')) {
-            const mateMatch = message.match(/score mate (-?\d+)/);
-            const depthMatch = message.match(/depth (\d+)/);
-            const nodesMatch = message.match(/nodes (\d+)/);
-            const timeMatch = message.match(/time (\d+)/);
-
-            if (mateMatch && depthMatch) {
-              const result: EvaluationResult = {
-                score: null,
-                mate: parseInt(mateMatch[1]),
-                depth: parseInt(depthMatch[1]),
-                nodes: nodesMatch ? parseInt(nodesMatch[1]) : 0,
-                time: timeMatch ? parseInt(timeMatch[1]) : 0
-              };
-              
-              // Store this evaluation
-              lastEvaluation = result;
-              
-              // Resolve immediately for quick evaluations
-              if (currentEvaluationResolve) {
-                currentEvaluationResolve(result);
-                currentEvaluationResolve = null;
-                currentEvaluationReject = null;
-                lastEvaluation = null;
-              }
-            }
+          // Only complete iterations of the main line count, fail-high/fail-low lines are skipped
+          if (parsed.type === 'info' && parsed.score && parsed.score.bound === 'exact'
+              && parsed.depth !== undefined && (parsed.multipv ?? 1) === 1) {
+            lastEvaluation = {
+              score: parsed.score.cp !== undefined ? parsed.score.cp / 100 : null,
+              mate: parsed.score.mate ?? null,
+              depth: parsed.depth,
+              nodes: parsed.nodes ?? 0,
+              time: parsed.time ?? 0,
+              pv: parsed.pv ?? [],
+              bestMove: parsed.pv?.[0] ?? null
+            };
           }
         }
       };
@@ -192,11 +157,11 @@ export async function evaluatePosition(fen: string, movetime: number = 2000): Pr
     // Use the specified movetime
     stockfishInstance!.postMessage(`go movetime ${movetime}`);
 
-    // Set a timeout slightly longer than the movetime
+    // Set a timeout slightly longer than the movetime, the result is only final at bestmove
     timeoutId = window.setTimeout(() => {
       cleanup();
       reject(new Error('Evaluation timed out'));
-    }, movetime + 100);
+    }, movetime + 1000);
   });
 }
 
@@ -0,0 +1,103 @@
+// Placement sweeps: put one chosen piece on every square where it may legally stand and
+// evaluate each resulting position. This module only works out the candidate squares;
+// App.tsx builds the FENs and feeds them to the solver, the tablebases and the engine.
+import { PieceSymbol, Square } from 'chess.js';
+import { formatFen, parseFen } from './fen';
+
+// Pieces use the same letter codes as the editor palette: uppercase white, lowercase black
+export type PieceCode = 'K' | 'Q' | 'R' | 'B' | 'N' | 'P' | 'k' | 'q' | 'r' | 'b' | 'n' | 'p';
+
+export interface BoardPiece {
+  square: Square;
+  piece: { type: PieceSymbol; color: 'w' | 'b' };
+}
+
+export interface SweepPlan {
+  piece: PieceCode;
+  squares: Square[];
+}
+
+export const ALL_SQUARES: Square[] = Array.from({ length: 64 }, (_, i) =>
+  `${String.fromCharCode(97 + (i % 8))}${8 - Math.floor(i / 8)}` as Square);
+
+export function pieceFromCode(code: PieceCode): { type: PieceSymbol; color: 'w' | 'b' } {
+  return { type: code.toLowerCase() as PieceSymbol, color: code === code.toUpperCase() ? 'w' : 'b' };
+}
+
+// Read the pieces off the board part of a FEN without chess.js validation (positions
+// being edited are often incomplete)
+export function piecesFromFen(fen: string): BoardPiece[] {
+  const pieces: BoardPiece[] = [];
+  let file = 0;
+  let rank = 7;
+  for (const char of fen.split(' ')[0]) {
+    if (char === '/') {
+      rank--;
+      file = 0;
+    } else if (/\d/.test(char)) {
+      file += parseInt(char);
+    } else {
+      const square = `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
+      pieces.push({ square, piece: pieceFromCode(char as PieceCode) });
+      file++;
+    }
+  }
+  return pieces;
+}
+
+// The piece the sweep places when none is chosen: the king that is missing from the board
+export function findMissingKing(fen: string): PieceCode | null {
+  const kings = piecesFromFen(fen).filter(p => p.piece.type === 'k');
+  if (kings.length !== 1) return null;
+  return kings[0].piece.color === 'w' ? 'k' : 'K';
+}
+
+const isAdjacent = (a: Square, b: Square) =>
+  Math.abs(a.charCodeAt(0) - b.charCodeAt(0)) <= 1 && Math.abs(parseInt(a[1]) - parseInt(b[1])) <= 1;
+
+// Work out where the piece may go. Throws an Error with a user-facing message when the
+// position cannot be swept with this piece.
+export function planSweep(fen: string, code: PieceCode | null): SweepPlan {
+  const piece = code ?? findMissingKing(fen);
+  if (!piece) throw new Error('Choose a piece to sweep, or leave exactly one king on the board');
+
+  const { type, color } = pieceFromCode(piece);
+  const pieces = piecesFromFen(fen);
+  const occupied = new Set(pieces.map(p => p.square));
+  const kingOf = (c: 'w' | 'b') => pieces.find(p => p.piece.type === 'k' && p.piece.color === c)?.square;
+  const ownKing = kingOf(color);
+  const otherKing = kingOf(color === 'w' ? 'b' : 'w');
+  const side = color === 'w' ? 'White' : 'Black';
+
+  if (type === 'k') {
+    if (ownKing) throw new Error(`${side} already has a king`);
+    if (!otherKing) throw new Error('Place the other king before sweeping a king');
+  } else if (!ownKing || !otherKing) {
+    throw new Error('Both kings must be on the board to sweep this piece');
+  }
+
+  const squares = ALL_SQUARES.filter(square => {
+    if (occupied.has(square)) return false;
+    // Pawns never stand on the first or last rank
+    if (type === 'p' && (square[1] === '1' || square[1] === '8')) return false;
+    // Kings may not touch each other
+    if (type === 'k' && isAdjacent(square, otherKing!)) return false;
+    return true;
+  });
+  return { piece, squares };
+}
+
+// FEN of the swept position with the piece added on one square; the other FEN fields are
+// kept, except an en passant target that belongs to the other side to move
+export function placementFen(fen: string, piece: PieceCode, square: Square, turn: 'w' | 'b'): string {
+  const fields = parseFen(fen);
+  const board: (string | null)[] = Array(64).fill(null);
+  const indexOf = (s: Square) => (8 - parseInt(s[1])) * 8 + (s.charCodeAt(0) - 97);
+  piecesFromFen(fen).forEach(p => {
+    board[indexOf(p.square)] = p.piece.color === 'w' ? p.piece.type.toUpperCase() : p.piece.type;
+  });
+  board[indexOf(square)] = piece;
+  const rows = Array.from({ length: 8 }, (_, r) =>
+    board.slice(r * 8, r * 8 + 8).map(c => c ?? '1').join('').replace(/1+/g, ones => String(ones.length)));
+  return formatFen({ ...fields, board: rows.join('/'), turn, enPassant: fields.turn === turn ? fields.enPassant : '-' });
+}
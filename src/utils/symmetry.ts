@@ -0,0 +1,111 @@
+// Board symmetries that leave the evaluation for the side to move unchanged. Without pawns
+// the board can be rotated and reflected (8 ways) and the colours swapped; pawns only allow a
+// left-right mirror, combined with a colour swap that also mirrors the ranks. Castling rights
+// pin the board to its orientation, leaving just the colour swap.
+import { parseFen } from './fen';
+
+export interface SymmetricPosition {
+  fen: string; // The canonical member of the symmetry class
+  key: string; // The canonical FEN without the move number, which no evaluation depends on
+  toActual: (uci: string) => string; // Maps a move on the canonical board back to the given one
+}
+
+type SquareMap = (file: number, rank: number) => [number, number];
+
+interface Transform {
+  map: SquareMap;
+  swapColours: boolean;
+}
+
+const GEOMETRIC: Record<string, SquareMap> = {
+  identity: (f, r) => [f, r],
+  flipFiles: (f, r) => [7 - f, r],
+  flipRanks: (f, r) => [f, 7 - r],
+  rotate180: (f, r) => [7 - f, 7 - r],
+  transpose: (f, r) => [r, f],
+  antiTranspose: (f, r) => [7 - r, 7 - f],
+  rotate90: (f, r) => [r, 7 - f],
+  rotate270: (f, r) => [7 - r, f],
+};
+
+const PAWN_TRANSFORMS: Transform[] = [
+  { map: GEOMETRIC.identity, swapColours: false },
+  { map: GEOMETRIC.flipFiles, swapColours: false },
+  { map: GEOMETRIC.flipRanks, swapColours: true },
+  { map: GEOMETRIC.rotate180, swapColours: true },
+];
+
+const PAWNLESS_TRANSFORMS: Transform[] = Object.values(GEOMETRIC)
+  .flatMap(map => [{ map, swapColours: false }, { map, swapColours: true }]);
+
+const CASTLING_TRANSFORMS: Transform[] = [PAWN_TRANSFORMS[0], PAWN_TRANSFORMS[2]];
+
+const squareName = (file: number, rank: number) => `${String.fromCharCode(97 + file)}${rank + 1}`;
+
+const swapCase = (c: string) => c === c.toUpperCase() ? c.toLowerCase() : c.toUpperCase();
+
+// Board as 64 cells indexed by rank * 8 + file, rank 0 being the first rank
+function expandBoard(board: string): (string | null)[] {
+  const cells: (string | null)[] = Array(64).fill(null);
+  board.split('/').forEach((row, i) => {
+    let file = 0;
+    for (const c of row) {
+      if (/\d/.test(c)) file += parseInt(c);
+      else cells[(7 - i) * 8 + file++] = c;
+    }
+  });
+  return cells;
+}
+
+function compressBoard(cells: (string | null)[]): string {
+  return Array.from({ length: 8 }, (_, i) => cells.slice((7 - i) * 8, (8 - i) * 8)
+    .map(c => c ?? '1').join('').replace(/1+/g, ones => String(ones.length))).join('/');
+}
+
+function mapSquare(transform: Transform, square: string): string {
+  const [f, r] = transform.map(square.charCodeAt(0) - 97, parseInt(square[1]) - 1);
+  return squareName(f, r);
+}
+
+function applyTransform(transform: Transform, cells: (string | null)[], turn: 'w' | 'b', castling: string, enPassant: string) {
+  const mapped: (string | null)[] = Array(64).fill(null);
+  cells.forEach((cell, index) => {
+    if (!cell) return;
+    const [f, r] = transform.map(index % 8, Math.floor(index / 8));
+    mapped[r * 8 + f] = transform.swapColours ? swapCase(cell) : cell;
+  });
+  const swap = transform.swapColours;
+  return {
+    board: compressBoard(mapped),
+    turn: swap ? (turn === 'w' ? 'b' : 'w') : turn,
+    // Castling transforms never move the king's side, only the colour
+    castling: castling === '-' || !swap ? castling : [...castling].map(swapCase).sort((a, b) => 'KQkq'.indexOf(a) - 'KQkq'.indexOf(b)).join(''),
+    enPassant: enPassant === '-' ? '-' : mapSquare(transform, enPassant),
+  };
+}
+
+export function canonicalPosition(fen: string): SymmetricPosition {
+  const { board, turn, castling, enPassant, halfmove, fullmove } = parseFen(fen);
+  const cells = expandBoard(board);
+  const transforms = castling !== '-' ? CASTLING_TRANSFORMS
+    : cells.some(c => c === 'P' || c === 'p') ? PAWN_TRANSFORMS
+    : PAWNLESS_TRANSFORMS;
+
+  let best: { key: string; transform: Transform } | null = null;
+  for (const transform of transforms) {
+    const t = applyTransform(transform, cells, turn, castling, enPassant);
+    const key = `${t.board} ${t.turn} ${t.castling} ${t.enPassant} ${halfmove}`;
+    if (!best || key < best.key) best = { key, transform };
+  }
+  const { key, transform } = best!;
+
+  // Moves found on the canonical board are mapped back through the inverse square map
+  const inverse = new Map<string, string>();
+  for (let index = 0; index < 64; index++) {
+    const square = squareName(index % 8, Math.floor(index / 8));
+    inverse.set(mapSquare(transform, square), square);
+  }
+  const toActual = (uci: string) => `${inverse.get(uci.slice(0, 2)) ?? uci.slice(0, 2)}${inverse.get(uci.slice(2, 4)) ?? uci.slice(2, 4)}${uci.slice(4)}`;
+
+  return { fen: `${key} ${fullmove}`, key, toActual };
+}
@@ -0,0 +1,730 @@
+import { Chess, Move } from 'chess.js';
+
+// Syzygy WDL/DTZ tablebase probing, ported from the reference prober used by Stockfish
+// (tbprobe.cpp). Tables are read from byte arrays handed in by the caller, so this module
+// has no idea where the files come from; tablebase.worker.ts feeds it files picked by the user.
+
+export type WdlScore = -2 | -1 | 0 | 1 | 2; // Loss, blessed loss, draw, cursed win, win
+
+export interface TablebaseProbe {
+  wdl: WdlScore; // Side to move perspective
+  dtz?: number;  // Plies to the next zeroing move, signed like wdl, 0 for draws; undefined without the .rtbz
+}
+
+// Returns the contents of a table file (e.g. "KRvK.rtbw"), or null if it was not supplied
+export type TableFileReader = (fileName: string) => Uint8Array | null;
+
+const WDL_MAGIC = 0x5d23e871;
+const DTZ_MAGIC = 0xa50c66d7;
+
+const FLAG_STM = 1;
+const FLAG_MAPPED = 2;
+const FLAG_WIN_PLIES = 4;
+const FLAG_LOSS_PLIES = 8;
+const FLAG_WIDE = 16;
+const FLAG_SINGLE_VALUE = 128;
+
+// Syzygy piece codes: 1..6 for white P N B R Q K, the same plus 8 for black
+const PIECE_TYPE_CODES: Record<string, number> = { p: 1, n: 2, b: 3, r: 4, q: 5, k: 6 };
+const PIECE_ORDER = 'KQRBNP'; // Order of pieces in table file names
+
+// --- Index encoding tables (see Tablebases::init in tbprobe.cpp) ---
+
+const fileOf = (s: number) => s & 7;
+const rankOf = (s: number) => s >> 3;
+const offA1H8 = (s: number) => rankOf(s) - fileOf(s);
+const flipFile = (s: number) => s ^ 7;
+const flipRank = (s: number) => s ^ 56;
+
+const MAP_B1H1H7 = new Array<number>(64).fill(0);
+const MAP_A1D1D4 = new Array<number>(64).fill(0);
+const MAP_KK: number[][] = Array.from({ length: 10 }, () => new Array<number>(64).fill(0));
+const BINOMIAL: number[][] = Array.from({ length: 6 }, () => new Array<number>(64).fill(0));
+const MAP_PAWNS = new Array<number>(64).fill(0);
+const LEAD_PAWN_IDX: number[][] = Array.from({ length: 6 }, () => new Array<number>(64).fill(0));
+const LEAD_PAWNS_SIZE: number[][] = Array.from({ length: 6 }, () => new Array<number>(4).fill(0));
+
+(function initIndexTables() {
+  let code = 0;
+  for (let s = 0; s < 64; s++) {
+    if (offA1H8(s) < 0) MAP_B1H1H7[s] = code++;
+  }
+
+  const diagonal: number[] = [];
+  code = 0;
+  for (let s = 0; s <= 27; s++) { // a1..d4
+    if (offA1H8(s) < 0 && fileOf(s) <= 3) MAP_A1D1D4[s] = code++;
+    else if (offA1H8(s) === 0 && fileOf(s) <= 3) diagonal.push(s);
+  }
+  for (const s of diagonal) MAP_A1D1D4[s] = code++;
+
+  const kingAdjacentOrSame = (a: number, b: number) =>
+    Math.abs(fileOf(a) - fileOf(b)) <= 1 && Math.abs(rankOf(a) - rankOf(b)) <= 1;
+  const bothOnDiagonal: [number, number][] = [];
+  code = 0;
+  for (let idx = 0; idx < 10; idx++) {
+    for (let s1 = 0; s1 <= 27; s1++) {
+      if (MAP_A1D1D4[s1] !== idx || (idx === 0 && s1 !== 1)) continue; // b1 is mapped to 0
+      for (let s2 = 0; s2 < 64; s2++) {
+        if (kingAdjacentOrSame(s1, s2)) continue; // Illegal position
+        if (offA1H8(s1) === 0 && offA1H8(s2) > 0) continue; // First on diagonal, second above
+        if (offA1H8(s1) === 0 && offA1H8(s2) === 0) bothOnDiagonal.push([idx, s2]);
+        else MAP_KK[idx][s2] = code++;
+      }
+    }
+  }
+  for (const [idx, s2] of bothOnDiagonal) MAP_KK[idx][s2] = code++;
+
+  BINOMIAL[0][0] = 1;
+  for (let n = 1; n < 64; n++) {
+    for (let k = 0; k < 6 && k <= n; k++) {
+      BINOMIAL[k][n] = (k > 0 ? BINOMIAL[k - 1][n - 1] : 0) + (k < n ? BINOMIAL[k][n - 1] : 0);
+    }
+  }
+
+  let availableSquares = 47; // Available squares when the lead pawn is on a2
+  for (let leadPawnsCnt = 1; leadPawnsCnt <= 5; leadPawnsCnt++) {
+    for (let f = 0; f <= 3; f++) {
+      let idx = 0;
+      for (let r = 1; r <= 6; r++) {
+        const sq = r * 8 + f;
+        if (leadPawnsCnt === 1) {
+          MAP_PAWNS[sq] = availableSquares--;
+          MAP_PAWNS[flipFile(sq)] = availableSquares--;
+        }
+        LEAD_PAWN_IDX[leadPawnsCnt][sq] = idx;
+        idx += BINOMIAL[leadPawnsCnt - 1][MAP_PAWNS[sq]];
+      }
+      LEAD_PAWNS_SIZE[leadPawnsCnt][f] = idx;
+    }
+  }
+})();
+
+const pawnsCompare = (a: number, b: number) => MAP_PAWNS[a] - MAP_PAWNS[b];
+
+// --- Table structures ---
+
+interface PairsData {
+  flags: number;
+  pieces: number[];
+  groupLen: number[]; // Zero terminated
+  groupIdx: number[];
+  sizeofBlock: number;
+  span: number;
+  sparseIndexSize: number;
+  blocksNum: number;
+  blockLengthSize: number;
+  minSymLen: number; // Holds the value itself for single value tables
+  lowestSym: number; // Byte offsets into the file from here on
+  base64: bigint[];
+  symlen: number[];
+  btree: number;
+  sparseIndex: number;
+  blockLength: number;
+  data: number;
+  mapIdx: number[];
+}
+
+interface MappedTable {
+  bytes: Uint8Array;
+  view: DataView;
+  map: number;
+  items: PairsData[][]; // [side][file]
+}
+
+interface TableEntry {
+  code: string;  // e.g. "KRvK", white pieces first
+  key: string;   // Material key with the code's first half as white
+  key2: string;  // Material key with colours swapped
+  pieceCount: number;
+  hasPawns: boolean;
+  hasUniquePieces: boolean;
+  pawnCount: [number, number]; // Leading colour first
+  wdl?: MappedTable | null; // undefined until the file is first read, null if missing or broken
+  dtz?: MappedTable | null;
+}
+
+type TableType = 'wdl' | 'dtz';
+
+// --- Table parsing (TBTable::set and helpers) ---
+
+function readSym(view: DataView, offset: number): number {
+  return view.getUint16(offset, true);
+}
+
+// The binary tree of Recursive Pairing symbols: 12 bits left, 12 bits right
+function btreeLeft(bytes: Uint8Array, btree: number, sym: number): number {
+  const p = btree + sym * 3;
+  return ((bytes[p + 1] & 0xf) << 8) | bytes[p];
+}
+
+function btreeRight(bytes: Uint8Array, btree: number, sym: number): number {
+  const p = btree + sym * 3;
+  return (bytes[p + 2] << 4) | (bytes[p + 1] >> 4);
+}
+
+function setGroups(entry: TableEntry, d: PairsData, order: [number, number], file: number) {
+  let n = 0;
+  let firstLen = entry.hasPawns ? 0 : entry.hasUniquePieces ? 3 : 2;
+  d.groupLen = [1];
+
+  for (let i = 1; i < entry.pieceCount; i++) {
+    if (--firstLen > 0 || d.pieces[i] === d.pieces[i - 1]) d.groupLen[n]++;
+    else d.groupLen[++n] = 1;
+  }
+  d.groupLen[++n] = 0;
+
+  const pp = entry.hasPawns && entry.pawnCount[1] > 0;
+  let next = pp ? 2 : 1;
+  let freeSquares = 64 - d.groupLen[0] - (pp ? d.groupLen[1] : 0);
+  let idx = 1;
+  d.groupIdx = [];
+
+  for (let k = 0; next < n || k === order[0] || k === order[1]; k++) {
+    if (k === order[0]) { // Leading pawns or pieces
+      d.groupIdx[0] = idx;
+      idx *= entry.hasPawns ? LEAD_PAWNS_SIZE[d.groupLen[0]][file]
+        : entry.hasUniquePieces ? 31332 : 462;
+    } else if (k === order[1]) { // Remaining pawns
+      d.groupIdx[1] = idx;
+      idx *= BINOMIAL[d.groupLen[1]][48 - d.groupLen[0]];
+    } else { // Remaining pieces
+      d.groupIdx[next] = idx;
+      idx *= BINOMIAL[d.groupLen[next]][freeSquares];
+      freeSquares -= d.groupLen[next++];
+    }
+  }
+  d.groupIdx[n] = idx;
+}
+
+function setSymlen(bytes: Uint8Array, d: PairsData, sym: number, visited: boolean[]): number {
+  visited[sym] = true;
+  const right = btreeRight(bytes, d.btree, sym);
+  if (right === 0xfff) return 0;
+  const left = btreeLeft(bytes, d.btree, sym);
+  if (!visited[left]) d.symlen[left] = setSymlen(bytes, d, left, visited);
+  if (!visited[right]) d.symlen[right] = setSymlen(bytes, d, right, visited);
+  return d.symlen[left] + d.symlen[right] + 1;
+}
+
+function setSizes(table: MappedTable, d: PairsData, offset: number): number {
+  const { bytes, view } = table;
+  d.flags = bytes[offset++];
+
+  if (d.flags & FLAG_SINGLE_VALUE) {
+    d.blocksNum = d.blockLengthSize = d.span = d.sparseIndexSize = 0;
+    d.minSymLen = bytes[offset++]; // Here we store the single value
+    return offset;
+  }
+
+  const tbSize = d.groupIdx[d.groupLen.indexOf(0)];
+  d.sizeofBlock = 2 ** bytes[offset++];
+  d.span = 2 ** bytes[offset++];
+  d.sparseIndexSize = Math.ceil(tbSize / d.span);
+  const padding = bytes[offset++];
+  d.blocksNum = view.getUint32(offset, true); offset += 4;
+  d.blockLengthSize = d.blocksNum + padding;
+  const maxSymLen = bytes[offset++];
+  d.minSymLen = bytes[offset++];
+  d.lowestSym = offset;
+
+  const base64Size = maxSymLen - d.minSymLen + 1;
+  d.base64 = new Array<bigint>(base64Size).fill(0n);
+  for (let i = base64Size - 2; i >= 0; i--) {
+    d.base64[i] = (d.base64[i + 1] + BigInt(readSym(view, d.lowestSym + i * 2))
+      - BigInt(readSym(view, d.lowestSym + (i + 1) * 2))) / 2n;
+  }
+  for (let i = 0; i < base64Size; i++) {
+    d.base64[i] = BigInt.asUintN(64, d.base64[i] << BigInt(64 - i - d.minSymLen));
+  }
+
+  offset += base64Size * 2;
+  const symCount = view.getUint16(offset, true); offset += 2;
+  d.btree = offset;
+  d.symlen = new Array<number>(symCount).fill(0);
+  const visited = new Array<boolean>(symCount).fill(false);
+  for (let sym = 0; sym < symCount; sym++) {
+    if (!visited[sym]) d.symlen[sym] = setSymlen(bytes, d, sym, visited);
+  }
+  return offset + symCount * 3 + (symCount & 1);
+}
+
+function setDtzMap(table: MappedTable, offset: number, maxFile: number): number {
+  table.map = offset;
+  for (let f = 0; f <= maxFile; f++) {
+    const d = table.items[0][f];
+    if (!(d.flags & FLAG_MAPPED)) continue;
+    if (d.flags & FLAG_WIDE) {
+      offset += offset & 1; // Word alignment, we may have a mixed table
+      for (let i = 0; i < 4; i++) {
+        d.mapIdx[i] = (offset - table.map) / 2 + 1;
+        offset += 2 * table.view.getUint16(offset, true) + 2;
+      }
+    } else {
+      for (let i = 0; i < 4; i++) {
+        d.mapIdx[i] = offset - table.map + 1;
+        offset += table.bytes[offset] + 1;
+      }
+    }
+  }
+  return offset + (offset & 1);
+}
+
+function emptyPairsData(): PairsData {
+  return {
+    flags: 0, pieces: [], groupLen: [], groupIdx: [], sizeofBlock: 0, span: 0, sparseIndexSize: 0,
+    blocksNum: 0, blockLengthSize: 0, minSymLen: 0, lowestSym: 0, base64: [], symlen: [], btree: 0,
+    sparseIndex: 0, blockLength: 0, data: 0, mapIdx: [0, 0, 0, 0],
+  };
+}
+
+function mapTable(entry: TableEntry, type: TableType, bytes: Uint8Array): MappedTable | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 5 || view.getUint32(0, true) !== (type === 'wdl' ? WDL_MAGIC : DTZ_MAGIC)) {
+    console.error(`[syzygy] ${entry.code}: not a valid ${type.toUpperCase()} table`);
+    return null;
+  }
+
+  const sides = type === 'wdl' && entry.key !== entry.key2 ? 2 : 1;
+  const maxFile = entry.hasPawns ? 3 : 0;
+  const pp = entry.hasPawns && entry.pawnCount[1] > 0;
+  const table: MappedTable = {
+    bytes, view, map: 0,
+    items: Array.from({ length: sides }, () => Array.from({ length: maxFile + 1 }, emptyPairsData)),
+  };
+
+  let offset = 5; // Skip the magic and the flags byte
+  for (let f = 0; f <= maxFile; f++) {
+    const order: [number, number][] = [
+      [bytes[offset] & 0xf, pp ? bytes[offset + 1] & 0xf : 0xf],
+      [bytes[offset] >> 4, pp ? bytes[offset + 1] >> 4 : 0xf],
+    ];
+    offset += 1 + (pp ? 1 : 0);
+    for (let k = 0; k < entry.pieceCount; k++, offset++) {
+      for (let i = 0; i < sides; i++) {
+        table.items[i][f].pieces[k] = i ? bytes[offset] >> 4 : bytes[offset] & 0xf;
+      }
+    }
+    for (let i = 0; i < sides; i++) setGroups(entry, table.items[i][f], order[i], f);
+  }
+  offset += offset & 1; // Word alignment
+
+  for (let f = 0; f <= maxFile; f++) {
+    for (let i = 0; i < sides; i++) offset = setSizes(table, table.items[i][f], offset);
+  }
+  if (type === 'dtz') offset = setDtzMap(table, offset, maxFile);
+
+  for (let f = 0; f <= maxFile; f++) {
+    for (let i = 0; i < sides; i++) {
+      const d = table.items[i][f];
+      d.sparseIndex = offset;
+      offset += d.sparseIndexSize * 6;
+    }
+  }
+  for (let f = 0; f <= maxFile; f++) {
+    for (let i = 0; i < sides; i++) {
+      const d = table.items[i][f];
+      d.blockLength = offset;
+      offset += d.blockLengthSize * 2;
+    }
+  }
+  for (let f = 0; f <= maxFile; f++) {
+    for (let i = 0; i < sides; i++) {
+      const d = table.items[i][f];
+      offset = (offset + 0x3f) & ~0x3f; // 64 byte alignment
+      d.data = offset;
+      offset += d.blocksNum * d.sizeofBlock;
+    }
+  }
+  return table;
+}
+
+function getPairs(entry: TableEntry, table: MappedTable, stm: number, file: number): PairsData {
+  return table.items[stm % table.items.length][entry.hasPawns ? file : 0];
+}
+
+// Decode the value stored at index idx (canonical Huffman + Recursive Pairing)
+function decompressPairs(table: MappedTable, d: PairsData, idx: number): number {
+  if (d.flags & FLAG_SINGLE_VALUE) return d.minSymLen;
+
+  const { bytes, view } = table;
+  const k = Math.floor(idx / d.span);
+  let block = view.getUint32(d.sparseIndex + k * 6, true);
+  let offset = view.getUint16(d.sparseIndex + k * 6 + 4, true);
+  offset += (idx % d.span) - d.span / 2;
+
+  const blockLength = (b: number) => view.getUint16(d.blockLength + b * 2, true);
+  while (offset < 0) offset += blockLength(--block) + 1;
+  while (offset > blockLength(block)) offset -= blockLength(block++) + 1;
+
+  let ptr = d.data + block * d.sizeofBlock;
+  let buf64 = (BigInt(view.getUint32(ptr, false)) << 32n) | BigInt(view.getUint32(ptr + 4, false));
+  ptr += 8;
+  let buf64Size = 64;
+  let sym: number;
+
+  for (;;) {
+    let len = 0;
+    while (buf64 < d.base64[len]) len++;
+    sym = Number((buf64 - d.base64[len]) >> BigInt(64 - len - d.minSymLen));
+    sym += readSym(view, d.lowestSym + len * 2);
+    if (offset < d.symlen[sym] + 1) break;
+
+    offset -= d.symlen[sym] + 1;
+    len += d.minSymLen;
+    buf64 = BigInt.asUintN(64, buf64 << BigInt(len));
+    buf64Size -= len;
+    if (buf64Size <= 32) {
+      buf64Size += 32;
+      buf64 |= BigInt(view.getUint32(ptr, false)) << BigInt(64 - buf64Size);
+      ptr += 4;
+    }
+  }
+
+  while (d.symlen[sym]) {
+    const left = btreeLeft(bytes, d.btree, sym);
+    if (offset < d.symlen[left] + 1) {
+      sym = left;
+    } else {
+      offset -= d.symlen[left] + 1;
+      sym = btreeRight(bytes, d.btree, sym);
+    }
+  }
+  return btreeLeft(bytes, d.btree, sym);
+}
+
+// --- Material keys and the table registry ---
+
+function codeForCounts(white: string, black: string): string {
+  const sort = (s: string) => [...s].sort((a, b) => PIECE_ORDER.indexOf(a) - PIECE_ORDER.indexOf(b)).join('');
+  return `${sort(white)}v${sort(black)}`;
+}
+
+function materialKey(game: Chess): string {
+  let white = '';
+  let black = '';
+  for (const row of game.board()) {
+    for (const piece of row) {
+      if (!piece) continue;
+      if (piece.color === 'w') white += piece.type.toUpperCase();
+      else black += piece.type.toUpperCase();
+    }
+  }
+  return codeForCounts(white, black);
+}
+
+function createEntry(code: string): TableEntry {
+  const [white, black] = code.split('v');
+  const count = (side: string, c: string) => [...side].filter(x => x === c).length;
+  const whitePawns = count(white, 'P');
+  const blackPawns = count(black, 'P');
+  // The leading colour is the side with fewer pawns (white if only white has pawns)
+  const whiteLeads = blackPawns === 0 || (whitePawns > 0 && blackPawns >= whitePawns);
+  const hasUniquePieces = [white, black].some(side => [...'QRBNP'].some(c => count(side, c) === 1));
+  return {
+    code,
+    key: code,
+    key2: `${black}v${white}`,
+    pieceCount: white.length + black.length,
+    hasPawns: whitePawns + blackPawns > 0,
+    hasUniquePieces,
+    pawnCount: whiteLeads ? [whitePawns, blackPawns] : [blackPawns, whitePawns],
+  };
+}
+
+const entries = new Map<string, TableEntry>();
+let readTableFile: TableFileReader = () => null;
+let maxPieces = 0;
+
+export function setTableFileReader(reader: TableFileReader) {
+  readTableFile = reader;
+}
+
+// Register a table by its WDL file name (e.g. "KRPvKR.rtbw"); DTZ files are looked up lazily
+export function registerTable(fileName: string): boolean {
+  const match = /^([KQRBNP]+)v([KQRBNP]+)\.rtbw$/.exec(fileName);
+  if (!match || match[1][0] !== 'K' || match[2][0] !== 'K') return false;
+  const code = codeForCounts(match[1], match[2]);
+  if (entries.has(code)) return true;
+  const entry = createEntry(code);
+  entries.set(entry.key, entry);
+  entries.set(entry.key2, entry);
+  maxPieces = Math.max(maxPieces, entry.pieceCount);
+  return true;
+}
+
+export function getRegisteredTables(): string[] {
+  return [...new Set([...entries.values()].map(entry => entry.code))].sort();
+}
+
+export function getMaxPieces(): number {
+  return maxPieces;
+}
+
+function mapped(entry: TableEntry, type: TableType): MappedTable | null {
+  if (entry[type] === undefined) {
+    const fileName = `${entry.code}.${type === 'wdl' ? 'rtbw' : 'rtbz'}`;
+    const bytes = readTableFile(fileName);
+    // A broken file is remembered as missing rather than read again on every probe
+    try {
+      entry[type] = bytes ? mapTable(entry, type, bytes) : null;
+    } catch (error) {
+      console.error('[syzygy] Failed to read', fileName, error);
+      entry[type] = null;
+    }
+  }
+  return entry[type] ?? null;
+}
+
+// do_probe_table: compute the index of the position and read its stored value.
+// Returns null on failure and 'change-stm' when a one-sided DTZ table stores the other side.
+function probeTable(game: Chess, type: TableType, wdl: WdlScore = 0): number | null | 'change-stm' {
+  const key = materialKey(game);
+  if (key === 'KvK') return 0;
+  const entry = entries.get(key);
+  if (!entry) return null;
+  const table = mapped(entry, type);
+  if (!table) return null;
+
+  const occupied: { square: number; piece: number }[] = [];
+  game.board().forEach((row, r) => row.forEach((p, f) => {
+    if (p) occupied.push({ square: (7 - r) * 8 + f, piece: PIECE_TYPE_CODES[p.type] | (p.color === 'b' ? 8 : 0) });
+  }));
+  occupied.sort((a, b) => a.square - b.square);
+
+  const sideToMove = game.turn() === 'b' ? 1 : 0;
+  const symmetricBlackToMove = entry.key === entry.key2 && sideToMove === 1;
+  const blackStronger = key !== entry.key;
+  const flip = symmetricBlackToMove || blackStronger;
+  const flipColor = flip ? 8 : 0;
+  const flipSquares = flip ? 56 : 0;
+  const stm = (flip ? 1 : 0) ^ sideToMove;
+
+  const squares: number[] = [];
+  const pieces: number[] = [];
+  let leadPawnsCnt = 0;
+  let tbFile = 0;
+  let rest = occupied;
+
+  if (entry.hasPawns) {
+    // Pawns come first in every per-file table and their colour is the reference one
+    const leadPiece = getPairs(entry, table, 0, 0).pieces[0] ^ flipColor;
+    const leadPawns = occupied.filter(o => o.piece === leadPiece);
+    rest = occupied.filter(o => o.piece !== leadPiece);
+    for (const o of leadPawns) {
+      squares.push(o.square ^ flipSquares);
+      pieces.push(o.piece ^ flipColor);
+    }
+    leadPawnsCnt = squares.length;
+    let maxIdx = 0;
+    for (let i = 1; i < leadPawnsCnt; i++) {
+      if (pawnsCompare(squares[maxIdx], squares[i]) < 0) maxIdx = i;
+    }
+    [squares[0], squares[maxIdx]] = [squares[maxIdx], squares[0]];
+    const file = fileOf(squares[0]);
+    tbFile = Math.min(file, 7 - file);
+  }
+
+  // DTZ tables are one-sided
+  if (type === 'dtz') {
+    const flags = getPairs(entry, table, stm, tbFile).flags;
+    if ((flags & FLAG_STM) !== stm && !(entry.key === entry.key2 && !entry.hasPawns)) return 'change-stm';
+  }
+
+  for (const o of rest) {
+    squares.push(o.square ^ flipSquares);
+    pieces.push(o.piece ^ flipColor);
+  }
+  const size = squares.length;
+  const d = getPairs(entry, table, stm, tbFile);
+
+  // Reorder the pieces to the sequence stored in the table
+  for (let i = leadPawnsCnt; i < size - 1; i++) {
+    for (let j = i + 1; j < size; j++) {
+      if (d.pieces[i] === pieces[j]) {
+        [pieces[i], pieces[j]] = [pieces[j], pieces[i]];
+        [squares[i], squares[j]] = [squares[j], squares[i]];
+        break;
+      }
+    }
+  }
+
+  if (fileOf(squares[0]) > 3) {
+    for (let i = 0; i < size; i++) squares[i] = flipFile(squares[i]);
+  }
+
+  let idx: number;
+  if (entry.hasPawns) {
+    idx = LEAD_PAWN_IDX[leadPawnsCnt][squares[0]];
+    const others = squares.slice(1, leadPawnsCnt).sort(pawnsCompare);
+    squares.splice(1, others.length, ...others);
+    for (let i = 1; i < leadPawnsCnt; i++) idx += BINOMIAL[i][MAP_PAWNS[squares[i]]];
+  } else {
+    if (rankOf(squares[0]) > 3) {
+      for (let i = 0; i < size; i++) squares[i] = flipRank(squares[i]);
+    }
+    // Map the first piece of the leading group that is off the a1-h8 diagonal below it
+    for (let i = 0; i < d.groupLen[0]; i++) {
+      if (!offA1H8(squares[i])) continue;
+      if (offA1H8(squares[i]) > 0) {
+        for (let j = i; j < size; j++) squares[j] = ((squares[j] >> 3) | (squares[j] << 3)) & 63;
+      }
+      break;
+    }
+
+    if (entry.hasUniquePieces) {
+      const adjust1 = squares[1] > squares[0] ? 1 : 0;
+      const adjust2 = (squares[2] > squares[0] ? 1 : 0) + (squares[2] > squares[1] ? 1 : 0);
+      if (offA1H8(squares[0])) {
+        idx = (MAP_A1D1D4[squares[0]] * 63 + (squares[1] - adjust1)) * 62 + squares[2] - adjust2;
+      } else if (offA1H8(squares[1])) {
+        idx = (6 * 63 + rankOf(squares[0]) * 28 + MAP_B1H1H7[squares[1]]) * 62 + squares[2] - adjust2;
+      } else if (offA1H8(squares[2])) {
+        idx = 6 * 63 * 62 + 4 * 28 * 62 + rankOf(squares[0]) * 7 * 28
+          + (rankOf(squares[1]) - adjust1) * 28 + MAP_B1H1H7[squares[2]];
+      } else {
+        idx = 6 * 63 * 62 + 4 * 28 * 62 + 4 * 7 * 28 + rankOf(squares[0]) * 7 * 6
+          + (rankOf(squares[1]) - adjust1) * 6 + (rankOf(squares[2]) - adjust2);
+      }
+    } else {
+      idx = MAP_KK[MAP_A1D1D4[squares[0]]][squares[1]];
+    }
+  }
+
+  // Encode the remaining groups, each sorted by square
+  idx *= d.groupIdx[0];
+  let groupStart = d.groupLen[0];
+  let remainingPawns = entry.hasPawns && entry.pawnCount[1] > 0;
+  for (let next = 1; d.groupLen[next]; next++) {
+    const groupEnd = groupStart + d.groupLen[next];
+    const group = squares.slice(groupStart, groupEnd).sort((a, b) => a - b);
+    squares.splice(groupStart, group.length, ...group);
+    let n = 0;
+    for (let i = 0; i < group.length; i++) {
+      const adjust = squares.slice(0, groupStart).filter(s => group[i] > s).length;
+      n += BINOMIAL[i + 1][group[i] - adjust - (remainingPawns ? 8 : 0)];
+    }
+    remainingPawns = false;
+    idx += n * d.groupIdx[next];
+    groupStart = groupEnd;
+  }
+
+  const value = decompressPairs(table, d, idx);
+  return type === 'wdl' ? value - 2 : mapDtzScore(entry, table, tbFile, value, wdl);
+}
+
+function mapDtzScore(entry: TableEntry, table: MappedTable, file: number, value: number, wdl: WdlScore): number {
+  const WDL_MAP = [1, 3, 0, 2, 0];
+  const d = getPairs(entry, table, 0, file);
+  if (d.flags & FLAG_MAPPED) {
+    const mapIdx = d.mapIdx[WDL_MAP[wdl + 2]];
+    value = d.flags & FLAG_WIDE
+      ? table.view.getUint16(table.map + (mapIdx + value) * 2, true)
+      : table.bytes[table.map + mapIdx + value];
+  }
+  // DTZ tables store moves or plies; convert to plies
+  if ((wdl === 2 && !(d.flags & FLAG_WIN_PLIES)) || (wdl === -2 && !(d.flags & FLAG_LOSS_PLIES))
+      || wdl === 1 || wdl === -1) {
+    value *= 2;
+  }
+  return value + 1;
+}
+
+// Captures (and, for DTZ, pawn moves) are "don't care" in the tables, so search them first.
+// Returns the WDL score and whether the best result comes from a zeroing move.
+function search(game: Chess, checkZeroingMoves: boolean): { value: WdlScore; zeroingBest: boolean } | null {
+  const moves = game.moves({ verbose: true });
+  let bestValue: WdlScore = -2;
+  let moveCount = 0;
+
+  for (const move of moves) {
+    if (!move.isCapture() && (!checkZeroingMoves || move.piece !== 'p')) continue;
+    moveCount++;
+    game.move(move);
+    const child = search(game, false);
+    game.undo();
+    if (!child) return null;
+    const value = -child.value as WdlScore;
+    if (value > bestValue) {
+      bestValue = value;
+      if (value >= 2) return { value, zeroingBest: true }; // Winning DTZ-zeroing move
+    }
+  }
+
+  const noMoreMoves = moveCount > 0 && moveCount === moves.length;
+  let value: WdlScore;
+  if (noMoreMoves) {
+    value = bestValue;
+  } else {
+    const probed = probeTable(game, 'wdl');
+    if (probed === null || probed === 'change-stm') return null;
+    value = probed as WdlScore;
+  }
+
+  if (bestValue >= value) return { value: bestValue, zeroingBest: bestValue > 0 || noMoreMoves };
+  return { value, zeroingBest: false };
+}
+
+function dtzBeforeZeroing(wdl: WdlScore): number {
+  return wdl === 2 ? 1 : wdl === 1 ? 101 : wdl === -1 ? -101 : wdl === -2 ? -1 : 0;
+}
+
+function probeDtz(game: Chess): number | null {
+  const searched = search(game, true);
+  if (!searched) return null;
+  const { value: wdl, zeroingBest } = searched;
+  if (wdl === 0) return 0; // DTZ tables don't store draws
+  if (zeroingBest) return dtzBeforeZeroing(wdl);
+
+  const dtz = probeTable(game, 'dtz', wdl);
+  if (dtz === null) return null;
+  if (dtz !== 'change-stm') return (dtz + (wdl === -1 || wdl === 1 ? 100 : 0)) * Math.sign(wdl);
+
+  // The table stores the other side to move: do a 1-ply search for the best DTZ
+  let minDtz = 0xffff;
+  for (const move of game.moves({ verbose: true }) as Move[]) {
+    const zeroing = move.isCapture() || move.piece === 'p';
+    game.move(move);
+    let childDtz: number | null;
+    if (zeroing) {
+      const child = search(game, false);
+      childDtz = child ? -dtzBeforeZeroing(child.value) : null;
+    } else {
+      const child = probeDtz(game);
+      childDtz = child === null ? null : -child;
+    }
+    if (childDtz === null) {
+      game.undo();
+      return null;
+    }
+    if (childDtz === 1 && game.isCheckmate()) minDtz = 1; // The move mates
+    if (!zeroing) childDtz += Math.sign(childDtz);
+    if (childDtz < minDtz && Math.sign(childDtz) === Math.sign(wdl)) minDtz = childDtz;
+    game.undo();
+  }
+  return minDtz === 0xffff ? -1 : minDtz; // No legal moves: the position is mate
+}
+
+// Probe a position. Returns null if it is out of range, has castling rights or a table is missing.
+export function probePosition(fen: string): TablebaseProbe | null {
+  let game: Chess;
+  try {
+    game = new Chess(fen);
+  } catch {
+    return null;
+  }
+  if (fen.split(' ')[2] !== '-' && fen.split(' ')[2] !== undefined) return null; // Tables have no castling
+  let pieceCount = 0;
+  game.board().forEach(row => row.forEach(p => { if (p) pieceCount++; }));
+  if (pieceCount > maxPieces && pieceCount > 2) return null;
+
+  const searched = search(game, false);
+  if (!searched) return null;
+  const dtz = probeDtz(game) ?? undefined;
+  // A decisive result that needs more quiet plies than the 50-move counter has left is only a draw.
+  // Without the DTZ table that can't be told, so the WDL result stands.
+  const rule50 = parseInt(fen.split(' ')[4]) || 0;
+  let wdl = searched.value;
+  if (dtz !== undefined && Math.abs(wdl) === 2 && Math.abs(dtz) + rule50 > 100) wdl = (wdl / 2) as WdlScore;
+  return { wdl, dtz };
+}
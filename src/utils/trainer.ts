@@ -0,0 +1,130 @@
+// "Where should the piece go?" trainer: every stored sweep becomes quiz cards that ask for
+// the squares where the swept piece's side wins, draws or loses. Answers are scored against
+// the stored evaluations and the cards are scheduled with SM-2, with the progress of each
+// trainee kept apart in localStorage.
+import { evaluationOutcome, EvaluationThresholds } from './evaluationScale';
+import { FenHistoryEntry, historyKey } from './historyStore';
+
+export type QuizCategory = 'win' | 'draw' | 'loss'; // For the side of the swept piece
+
+export interface QuizCard {
+  id: string; // History key and category
+  entry: FenHistoryEntry;
+  category: QuizCategory;
+  answer: string[];     // Squares in the category
+  candidates: string[]; // Squares with a clear outcome, the only ones scored
+}
+
+// SM-2 state of one card for one trainee
+export interface CardProgress {
+  ease: number;        // Easiness factor, 1.3 and up
+  interval: number;    // Days to the next review after a pass
+  repetitions: number; // Passes in a row
+  due: number;         // Timestamp of the next review
+  lastScore: number;   // 0..1
+  reviews: number;
+}
+
+export type TrainerProgress = Record<string, CardProgress>; // By card id
+
+export interface TrainerStore {
+  trainee: string; // Trainee whose progress is shown
+  progress: Record<string, TrainerProgress>; // By trainee
+}
+
+export interface QuizScore {
+  hits: string[];   // Picked and right
+  wrong: string[];  // Picked but in another category
+  missed: string[]; // In the category but not picked
+  score: number;    // Hits over all three, 0..1
+  quality: number;  // SM-2 grade, 0..5
+}
+
+export const QUIZ_CATEGORIES: QuizCategory[] = ['win', 'draw', 'loss'];
+export const DEFAULT_TRAINEE = 'Default';
+
+const STORAGE_KEY = 'trainerProgress';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // A failed card comes back in the same session
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Lowest score for each grade from 5 down to 1; 3 and up counts as a pass
+const QUALITY_SCORES = [0.95, 0.85, 0.7, 0.5, 0.25];
+
+export function loadTrainerStore(): TrainerStore {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.trainee === 'string' && stored.progress && typeof stored.progress === 'object') return stored;
+  } catch {
+    console.error('[trainer] Failed to parse stored progress');
+  }
+  return { trainee: DEFAULT_TRAINEE, progress: {} };
+}
+
+export function saveTrainerStore(store: TrainerStore): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+// One card per category that has squares; the sweep's own side to move is the one asked about
+export function quizCards(entry: FenHistoryEntry, thresholds: EvaluationThresholds): QuizCard[] {
+  const pieceSign = entry.piece === entry.piece.toUpperCase() ? 1 : -1;
+  const bySquare = Object.entries(entry.evaluations).flatMap(([square, evaluation]) => {
+    if (evaluation?.illegal) return [];
+    const outcome = evaluationOutcome(evaluation, thresholds);
+    return outcome === null ? [] : [{ square, outcome: outcome * pieceSign }];
+  });
+  const candidates = bySquare.map(s => s.square);
+  return QUIZ_CATEGORIES.flatMap(category => {
+    const wanted = category === 'win' ? 1 : category === 'draw' ? 0 : -1;
+    const answer = bySquare.filter(s => s.outcome === wanted).map(s => s.square);
+    if (answer.length === 0) return [];
+    return [{ id: `${historyKey(entry.fen, entry.piece)}|${category}`, entry, category, answer, candidates }];
+  });
+}
+
+// Picks on squares the sweep did not judge count neither way
+export function scoreAnswer(card: QuizCard, picked: string[]): QuizScore {
+  const answer = new Set(card.answer);
+  const chosen = new Set(picked.filter(square => card.candidates.includes(square)));
+  const hits = [...chosen].filter(square => answer.has(square));
+  const wrong = [...chosen].filter(square => !answer.has(square));
+  const missed = card.answer.filter(square => !chosen.has(square));
+  const score = hits.length / (hits.length + wrong.length + missed.length);
+  const index = QUALITY_SCORES.findIndex(min => score >= min);
+  return { hits, wrong, missed, score, quality: index === -1 ? 0 : 5 - index };
+}
+
+// SM-2: a pass lengthens the interval by the ease, a fail starts the card over
+export function scheduleReview(previous: CardProgress | undefined, score: QuizScore, now: number): CardProgress {
+  const { quality } = score;
+  const card = previous ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0, due: now, lastScore: 0, reviews: 0 };
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const reviews = card.reviews + 1;
+  if (quality < 3) {
+    return { ease, interval: 0, repetitions: 0, due: now + RELEARN_DELAY_MS, lastScore: score.score, reviews };
+  }
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.ease);
+  return { ease, interval, repetitions, due: now + interval * DAY_MS, lastScore: score.score, reviews };
+}
+
+// Most overdue card first, then cards never seen in history order; null when nothing is due
+export function nextCard(cards: QuizCard[], progress: TrainerProgress, now: number): QuizCard | null {
+  const due = cards
+    .filter(card => progress[card.id] && progress[card.id].due <= now)
+    .sort((a, b) => progress[a.id].due - progress[b.id].due);
+  return due[0] ?? cards.find(card => !progress[card.id]) ?? null;
+}
+
+export function countDue(cards: QuizCard[], progress: TrainerProgress, now: number): { due: number; fresh: number } {
+  return {
+    due: cards.filter(card => progress[card.id] && progress[card.id].due <= now).length,
+    fresh: cards.filter(card => !progress[card.id]).length,
+  };
+}
+
+// Earliest review still to come, null without any
+export function nextDueTime(cards: QuizCard[], progress: TrainerProgress): number | null {
+  const times = cards.map(card => progress[card.id]?.due).filter((due): due is number => due !== undefined);
+  return times.length > 0 ? Math.min(...times) : null;
+}
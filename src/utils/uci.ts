@@ -0,0 +1,172 @@
+// Typed parser for the UCI protocol lines emitted by Stockfish.
+// Every engine consumer (useStockfish, utils/stockfish, PlayComputer) goes through
+// parseUciLine instead of scraping the raw strings with its own regexes.
+
+export type ScoreBound = 'exact' | 'lowerbound' | 'upperbound';
+
+export interface UciScore {
+  cp?: number;   // Centipawns, side to move perspective
+  mate?: number; // Mate in X moves, negative if the side to move gets mated
+  bound: ScoreBound;
+}
+
+export interface UciIdMessage {
+  type: 'id';
+  field: 'name' | 'author';
+  value: string;
+}
+
+export type UciOptionType = 'check' | 'spin' | 'combo' | 'button' | 'string';
+
+export interface UciOptionMessage {
+  type: 'option';
+  name: string;
+  optionType: UciOptionType;
+  default?: string;
+  min?: number;
+  max?: number;
+  vars: string[]; // Allowed values of a combo option
+}
+
+export interface UciInfoMessage {
+  type: 'info';
+  depth?: number;
+  seldepth?: number;
+  multipv?: number;
+  score?: UciScore;
+  wdl?: [number, number, number]; // Win/draw/loss in permille
+  nodes?: number;
+  nps?: number;
+  hashfull?: number;
+  tbhits?: number;
+  time?: number;
+  currmove?: string;
+  currmovenumber?: number;
+  pv?: string[];
+  string?: string;
+}
+
+export interface UciBestMoveMessage {
+  type: 'bestmove';
+  move: string | null; // null when the engine answers "(none)"
+  ponder?: string;
+}
+
+export interface UciSimpleMessage {
+  type: 'uciok' | 'readyok';
+}
+
+export interface UciUnknownMessage {
+  type: 'unknown';
+  line: string;
+}
+
+export type UciMessage =
+  | UciIdMessage
+  | UciOptionMessage
+  | UciInfoMessage
+  | UciBestMoveMessage
+  | UciSimpleMessage
+  | UciUnknownMessage;
+
+// Numeric info fields that take exactly one integer argument
+const INFO_INT_FIELDS = ['depth', 'seldepth', 'multipv', 'nodes', 'nps', 'hashfull', 'tbhits', 'time', 'currmovenumber'] as const;
+type InfoIntField = typeof INFO_INT_FIELDS[number];
+
+const OPTION_KEYWORDS = new Set(['name', 'type', 'default', 'min', 'max', 'var']);
+
+function parseInfo(tokens: string[]): UciInfoMessage {
+  const info: UciInfoMessage = { type: 'info' };
+  let i = 1;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if ((INFO_INT_FIELDS as readonly string[]).includes(token)) {
+      const value = parseInt(tokens[i + 1]);
+      if (!isNaN(value)) info[token as InfoIntField] = value;
+      i += 2;
+    } else if (token === 'score') {
+      const kind = tokens[i + 1];
+      const value = parseInt(tokens[i + 2]);
+      const score: UciScore = { bound: 'exact' };
+      if (kind === 'cp') score.cp = value;
+      else if (kind === 'mate') score.mate = value;
+      i += 3;
+      if (tokens[i] === 'lowerbound' || tokens[i] === 'upperbound') {
+        score.bound = tokens[i] as ScoreBound;
+        i++;
+      }
+      if (!isNaN(value)) info.score = score;
+    } else if (token === 'wdl') {
+      const values = tokens.slice(i + 1, i + 4).map(v => parseInt(v));
+      if (values.length === 3 && values.every(v => !isNaN(v))) {
+        info.wdl = values as [number, number, number];
+      }
+      i += 4;
+    } else if (token === 'currmove') {
+      info.currmove = tokens[i + 1];
+      i += 2;
+    } else if (token === 'pv') {
+      // pv is always the last field on the line
+      info.pv = tokens.slice(i + 1);
+      break;
+    } else if (token === 'string') {
+      info.string = tokens.slice(i + 1).join(' ');
+      break;
+    } else {
+      i++; // Unknown field (cpuload, refutation, ...), skip it
+    }
+  }
+  return info;
+}
+
+function parseOption(tokens: string[]): UciOptionMessage {
+  const option: UciOptionMessage = { type: 'option', name: '', optionType: 'string', vars: [] };
+  let i = 1;
+  while (i < tokens.length) {
+    const keyword = tokens[i];
+    const valueTokens: string[] = [];
+    i++;
+    // Option names and string defaults can contain spaces, so read up to the next keyword
+    while (i < tokens.length && !OPTION_KEYWORDS.has(tokens[i])) {
+      valueTokens.push(tokens[i]);
+      i++;
+    }
+    const value = valueTokens.join(' ');
+    switch (keyword) {
+      case 'name': option.name = value; break;
+      case 'type': option.optionType = value as UciOptionType; break;
+      case 'default': option.default = value === '<empty>' ? '' : value; break;
+      case 'min': option.min = parseInt(value); break;
+      case 'max': option.max = parseInt(value); break;
+      case 'var': option.vars.push(value); break;
+    }
+  }
+  return option;
+}
+
+export function parseUciLine(line: string): UciMessage {
+  const trimmed = line.trim();
+  const tokens = trimmed.split(/\s+/);
+
+  switch (tokens[0]) {
+    case 'info':
+      return parseInfo(tokens);
+    case 'bestmove': {
+      const move = tokens[1] && tokens[1] !== '(none)' ? tokens[1] : null;
+      const message: UciBestMoveMessage = { type: 'bestmove', move };
+      if (tokens[2] === 'ponder' && tokens[3]) message.ponder = tokens[3];
+      return message;
+    }
+    case 'id':
+      if (tokens[1] === 'name' || tokens[1] === 'author') {
+        return { type: 'id', field: tokens[1], value: tokens.slice(2).join(' ') };
+      }
+      break;
+    case 'option':
+      return parseOption(tokens);
+    case 'uciok':
+    case 'readyok':
+      return { type: tokens[0] };
+  }
+  return { type: 'unknown', line: trimmed };
+}
@@ -0,0 +1,191 @@
+// Web worker that builds distance-to-mate tables with the retrograde solver and answers
+// probes from them. Solved tables are kept in IndexedDB, so each signature is only
+// generated once per browser. Probes never start a solve: a table takes up to minutes to
+// build, so the hook runs builds in a second instance of this worker that it can terminate,
+// and probes only answer from tables that already exist.
+import {
+  canonicalSignature,
+  childSignatures,
+  parseSignature,
+  placementFromFen,
+  positionSignature,
+  probeSolvedTable,
+  solveTable,
+  SolvedTable,
+  SolverResult,
+} from '../utils/retrograde';
+
+export type RetrogradeRequest =
+  | { type: 'probe'; id: number; fen: string }
+  | { type: 'build'; signature: string } // Generate the table and its children
+  | { type: 'refresh' } // Tables were built elsewhere, look in IndexedDB again
+  | { type: 'list' };   // Report the tables already in IndexedDB
+
+export type RetrogradeResponse =
+  | { type: 'probed'; id: number; result: SolverResult | null; missing?: string; error?: string } // missing: signature without a table yet
+  | { type: 'progress'; signature: string; ply: number; resolved: number }
+  | { type: 'solved'; signature: string; fromCache: boolean }
+  | { type: 'cached'; signatures: string[] }
+  | { type: 'built'; signature: string }
+  | { type: 'buildFailed'; signature: string; error: string };
+
+const DB_NAME = 'chess-endgames-retrograde';
+const DB_VERSION = 1;
+const STORE_NAME = 'tables';
+
+const tables = new Map<string, SolvedTable>();
+const tablePromises = new Map<string, Promise<SolvedTable>>();
+const cachedReads = new Map<string, Promise<SolvedTable | null>>(); // Also remembers the tables that are missing
+
+const post = (message: RetrogradeResponse) => self.postMessage(message);
+
+// --- IndexedDB cache ---
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'signature' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      // The solver still works without the cache, it just has to regenerate tables
+      request.onerror = () => {
+        console.warn('[retrograde worker] IndexedDB unavailable, tables will not be cached:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function readCachedTable(signature: string): Promise<SolvedTable | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(signature);
+    request.onsuccess = () => resolve((request.result as SolvedTable | undefined) ?? null);
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function writeCachedTable(table: SolvedTable): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(table);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.warn('[retrograde worker] Failed to cache', table.signature, transaction.error);
+      resolve();
+    };
+  });
+}
+
+async function listCachedTables(): Promise<string[]> {
+  const db = await openDb();
+  if (!db) return [];
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAllKeys();
+    request.onsuccess = () => resolve(request.result.map(String));
+    request.onerror = () => resolve([]);
+  });
+}
+
+// --- Table loading ---
+
+// A table that is already generated, from memory or IndexedDB; null when it still has to be built
+function availableTable(signature: string): Promise<SolvedTable | null> {
+  const table = tables.get(signature);
+  if (table) return Promise.resolve(table);
+  let read = cachedReads.get(signature);
+  if (!read) {
+    read = readCachedTable(signature).then(cached => {
+      if (cached) {
+        tables.set(signature, cached);
+        post({ type: 'solved', signature, fromCache: true });
+      }
+      return cached;
+    });
+    cachedReads.set(signature, read);
+  }
+  return read;
+}
+
+// Children (captures, promotions) are loaded first because solveTable looks them up synchronously
+function loadTable(signature: string): Promise<SolvedTable> {
+  let promise = tablePromises.get(signature);
+  if (!promise) {
+    promise = (async () => {
+      const available = await availableTable(signature);
+      if (available) return available;
+      await Promise.all(childSignatures(signature).map(loadTable));
+      const table = solveTable(signature, child => tables.get(child)!, (ply, resolved) => {
+        post({ type: 'progress', signature, ply, resolved });
+      });
+      tables.set(signature, table);
+      await writeCachedTable(table);
+      post({ type: 'solved', signature, fromCache: false });
+      return table;
+    })();
+    // A failed solve should be retried on the next build rather than cached forever
+    promise.catch(() => tablePromises.delete(signature));
+    tablePromises.set(signature, promise);
+  }
+  return promise;
+}
+
+async function probe(fen: string): Promise<{ result: SolverResult | null; missing?: string }> {
+  const position = placementFromFen(fen);
+  if (!position) return { result: null };
+  const signature = positionSignature(position.placed);
+  if (!signature) return { result: null };
+  if (signature.signature === 'KvK') return { result: probeSolvedTable(null, position.placed, position.stm, false) };
+  if (!parseSignature(signature.signature)) return { result: null };
+  const table = await availableTable(signature.signature);
+  if (!table) return { result: null, missing: signature.signature };
+  const result = probeSolvedTable(table, position.placed, position.stm, signature.flipped);
+  // Tables ignore the 50-move rule; only trust a mate that lands before the clock runs out
+  const halfmove = parseInt(fen.trim().split(/\s+/)[4]) || 0;
+  if (result && result.wdl !== 'draw' && result.plies + halfmove > 100) return { result: null };
+  return { result };
+}
+
+// "KvKR" and "KRvK" name the same table
+function canonicalBuildSignature(signature: string): string | null {
+  const match = /^(K[QRBNP]*)v(K[QRBNP]*)$/.exec(signature);
+  if (!match) return null;
+  const canonical = canonicalSignature(match[1], match[2]).signature;
+  return parseSignature(canonical) ? canonical : null;
+}
+
+self.onmessage = async (event: MessageEvent<RetrogradeRequest>) => {
+  const request = event.data;
+  if (request.type === 'probe') {
+    try {
+      post({ type: 'probed', id: request.id, ...await probe(request.fen) });
+    } catch (error) {
+      console.error('[retrograde worker] Probe failed for', request.fen, error);
+      post({ type: 'probed', id: request.id, result: null, error: String(error) });
+    }
+  } else if (request.type === 'build') {
+    const signature = canonicalBuildSignature(request.signature);
+    if (!signature) {
+      post({ type: 'buildFailed', signature: request.signature, error: 'Not an endgame the solver handles' });
+      return;
+    }
+    try {
+      await loadTable(signature);
+      post({ type: 'built', signature });
+    } catch (error) {
+      console.error('[retrograde worker] Build failed for', signature, error);
+      post({ type: 'buildFailed', signature, error: String(error) });
+    }
+  } else if (request.type === 'refresh') {
+    cachedReads.clear();
+  } else if (request.type === 'list') {
+    post({ type: 'cached', signatures: await listCachedTables() });
+  }
+};
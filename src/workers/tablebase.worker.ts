@@ -0,0 +1,44 @@
+// Web worker that owns the user-supplied Syzygy files and answers probe requests,
+// so decompressing tables never blocks the UI thread.
+import { getMaxPieces, getRegisteredTables, probePosition, registerTable, setTableFileReader, TablebaseProbe } from '../utils/syzygy';
+
+// FileReaderSync only exists in workers, so it is missing from the DOM typings
+declare const FileReaderSync: { new(): { readAsArrayBuffer(blob: Blob): ArrayBuffer } };
+
+export type TablebaseRequest =
+  | { type: 'load'; files: File[] }
+  | { type: 'probe'; id: number; fen: string };
+
+export type TablebaseResponse =
+  | { type: 'loaded'; tables: string[]; maxPieces: number }
+  | { type: 'probed'; id: number; result: TablebaseProbe | null; error?: string };
+
+const files = new Map<string, File>();
+
+// Tables are read in full the first time a probe needs them
+setTableFileReader(fileName => {
+  const file = files.get(fileName);
+  if (!file) return null;
+  return new Uint8Array(new FileReaderSync().readAsArrayBuffer(file));
+});
+
+const post = (message: TablebaseResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<TablebaseRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    for (const file of request.files) {
+      if (!/\.rtb[wz]$/.test(file.name)) continue;
+      files.set(file.name, file);
+      if (file.name.endsWith('.rtbw')) registerTable(file.name);
+    }
+    post({ type: 'loaded', tables: getRegisteredTables(), maxPieces: getMaxPieces() });
+  } else if (request.type === 'probe') {
+    try {
+      post({ type: 'probed', id: request.id, result: probePosition(request.fen) });
+    } catch (error) {
+      console.error('[tablebase worker] Probe failed for', request.fen, error);
+      post({ type: 'probed', id: request.id, result: null, error: String(error) });
+    }
+  }
+};